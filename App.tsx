@@ -1,99 +1,249 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Header } from './components/Header';
 import { Gallery } from './components/Gallery';
 import { AdminPanel } from './components/AdminPanel';
-import { ViewMode, Artwork, RepoConfig } from './types';
-import { fetchGalleryFromGitHub } from './services/githubService';
+import { Home } from './components/Home';
+import { About } from './components/About';
+import { StudioLogin } from './components/StudioLogin';
+import { CollectionsIndex } from './components/CollectionsIndex';
+import { ViewMode, Artwork, Collection, EmbeddingIndex, GalleryFilters, Inquiry, InvalidManifestEntry, Locale, PrerenderedData, Profile, RepoConfig, SiteSettings, StoredRepoConfig } from './types';
+import { fetchGallery, fetchProfile, fetchSiteSettings, isStoreConfigured, storeKey } from './services/galleryStore';
+import { fetchEmbeddingIndex } from './services/semanticSearch';
+import { isInquiryEnabled, sendInquiry } from './services/inquiryService';
+import { Route, useHashRoute, navigate, navigateBack } from './services/router';
+import { encryptToken } from './services/authService';
+import { getInitialLocale, saveLocale, localizeArtwork, uiStrings } from './services/i18n';
+import { isPubliclyVisible, nextScheduledAt } from './services/artworkStatus';
+import { onGalleryDataUpdated } from './services/pwa';
+import { EMPTY_PUBLIC_CONFIG, ResolvedPublicConfig, resolvePublicConfig } from './services/siteConfig';
+import { pageTitle } from './services/seo';
 
 const CONFIG_KEY = 'museai_github_config';
-const ARTIST_PASSWORD = 'muse';
-
-// ----------------------------------------------------------------------
-// ⚠️ PUBLIC CONFIGURATION ⚠️
-// To make your gallery visible to visitors, you must update these values
-// to match your GitHub repository details.
-// ----------------------------------------------------------------------
-const PUBLIC_REPO_CONFIG: RepoConfig = {
-  owner: 'etwashoo',
-  repo: 'aw3',
-  branch: 'main',
-};
-// ----------------------------------------------------------------------
 
-const App: React.FC = () => {
-  const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.GALLERY);
-  const [artworks, setArtworks] = useState<Artwork[]>([]);
+interface AppProps {
+  // Gallery snapshot of a pre-rendered page; the first render uses it so hydration matches the static HTML
+  prerendered?: PrerenderedData;
+  // Route to render when pre-rendering, where there is no location to read
+  initialRoute?: Route;
+}
+
+const App: React.FC<AppProps> = ({ prerendered, initialRoute }) => {
+  const route = useHashRoute(initialRoute);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  // The studio route shows the login form until the artist has authenticated
+  const viewMode = route.view === ViewMode.ADMIN && !isAuthenticated ? ViewMode.LOGIN : route.view;
+  const setViewMode = (mode: ViewMode) => navigate({ view: mode });
+  const galleryFilters: GalleryFilters = { query: route.query, tag: route.tag, sort: route.sort, collection: route.collection, semantic: route.semantic };
+  const [artworks, setArtworks] = useState<Artwork[]>(prerendered?.manifest.artworks || []);
+  const [collections, setCollections] = useState<Collection[]>(prerendered?.manifest.collections || []);
+  const [invalidEntries, setInvalidEntries] = useState<InvalidManifestEntry[]>([]);
+  const [profile, setProfile] = useState<Profile | null>(prerendered?.profile || null);
+  const [siteSettings, setSiteSettings] = useState<SiteSettings>(prerendered?.settings || {});
+  // A pre-rendered page starts in the language it was rendered in and switches after hydration
+  const [locale, setLocale] = useState<Locale>(() => prerendered ? prerendered.locale : getInitialLocale());
+  // Bumped when a scheduled artwork's publish time passes while the page is open
+  const [now, setNow] = useState(Date.now);
+  // Visitors see published artworks in the chosen language, falling back to the original text.
+  // The admin panel works on the full list, drafts included.
+  const localizedArtworks = useMemo(
+    () => artworks.filter(art => isPubliclyVisible(art, now)).map(art => localizeArtwork(art, locale)),
+    [artworks, locale, now]
+  );
+
+  useEffect(() => {
+    const next = nextScheduledAt(artworks, now);
+    if (next === undefined) return;
+    // setTimeout overflows past ~24.8 days; the effect simply re-arms after an early wake-up
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(next - now, 2 ** 31 - 1));
+    return () => clearTimeout(timer);
+  }, [artworks, now]);
   
-  // Initialize config with PUBLIC defaults, will be overridden by local storage if logged in
-  const [repoConfig, setRepoConfig] = useState<RepoConfig>(PUBLIC_REPO_CONFIG);
+  // Starts empty; filled from the deploy-time public config, then from local storage if the artist has logged in here
+  const [repoConfig, setRepoConfig] = useState<RepoConfig>(prerendered?.config || EMPTY_PUBLIC_CONFIG);
+  const [publicConfig, setPublicConfig] = useState<ResolvedPublicConfig | null>(null);
+  const [isResolvingConfig, setIsResolvingConfig] = useState(!prerendered);
   
-  const [passwordInput, setPasswordInput] = useState('');
+  const [storedConfig, setStoredConfig] = useState<StoredRepoConfig | null>(null);
+  // Held in memory only, so settings changes can be re-encrypted without asking again
+  const [sessionPassphrase, setSessionPassphrase] = useState<string | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(false);
-  const [loginError, setLoginError] = useState<string | null>(null);
+  // Only the gallery uses the search index, and it can be large, so it is fetched on first visit
+  const [embeddingIndex, setEmbeddingIndex] = useState<EmbeddingIndex | null>(null);
+  const [indexedStore, setIndexedStore] = useState<string | null>(null);
 
-  // Load config from local storage (prioritizing local settings for Admin testing)
+  // Resolve the public config (site-config.json, build env or GitHub Pages address), then let repo
+  // coordinates from local storage take precedence. The token stays encrypted until the artist logs in.
   useEffect(() => {
+    let parsed: StoredRepoConfig | null = null;
     const savedConfig = localStorage.getItem(CONFIG_KEY);
     if (savedConfig) {
       try {
-        const parsed = JSON.parse(savedConfig);
-        setRepoConfig(prev => ({
-            ...prev,
-            // If local storage has values, use them, otherwise fallback to PUBLIC config
-            owner: parsed.owner || PUBLIC_REPO_CONFIG.owner,
-            repo: parsed.repo || PUBLIC_REPO_CONFIG.repo,
-            branch: parsed.branch || PUBLIC_REPO_CONFIG.branch,
-            token: parsed.token || '' 
-        }));
+        parsed = JSON.parse(savedConfig);
+        setStoredConfig(parsed);
       } catch (e) {
         console.error(e);
       }
     }
+
+    resolvePublicConfig().then(resolved => {
+      setPublicConfig(resolved);
+      const base = resolved?.config || prerendered?.config || EMPTY_PUBLIC_CONFIG;
+      const saved = parsed;
+      setRepoConfig(prev => saved ? {
+          ...prev,
+          // If local storage has values, use them, otherwise fall back to the public config
+          owner: saved.owner || base.owner,
+          repo: saved.repo || base.repo,
+          branch: saved.branch || base.branch,
+          backend: saved.backend,
+          local: saved.local,
+          s3: saved.s3,
+      } : { ...base, token: prev.token });
+      setIsResolvingConfig(false);
+    });
   }, []);
 
-  // Fetch data when config changes (and has owner/repo)
+  // Fetch data when config changes (and points at a store)
   useEffect(() => {
     loadGalleryData();
-  }, [repoConfig.owner, repoConfig.repo]);
+  }, [repoConfig.owner, repoConfig.repo, repoConfig.token, repoConfig.backend, repoConfig.local, repoConfig.s3]);
+
+  // The service worker serves cached data first; reload once it has fetched something newer
+  useEffect(() => onGalleryDataUpdated(loadGalleryData), [repoConfig.owner, repoConfig.repo, repoConfig.token, repoConfig.backend, repoConfig.local, repoConfig.s3]);
 
   const loadGalleryData = async () => {
-    if (repoConfig.owner && repoConfig.repo) {
+    if (isStoreConfigured(repoConfig)) {
         setIsLoadingData(true);
-        const data = await fetchGalleryFromGitHub(repoConfig);
-        if (data.length > 0) {
-            setArtworks(data);
+        setIndexedStore(null);
+        try {
+            const [manifest, profileData, settingsData] = await Promise.all([
+                fetchGallery(repoConfig),
+                fetchProfile(repoConfig),
+                fetchSiteSettings(repoConfig)
+            ]);
+            // An empty list is a real answer (the last work was deleted); only a failed read keeps what is shown
+            setArtworks(manifest.artworks);
+            setCollections(manifest.collections);
+            setInvalidEntries(manifest.invalid || []);
+            if (profileData) {
+                setProfile(profileData);
+            }
+            setSiteSettings(settingsData || {});
+        } catch (err) {
+            console.warn("Could not load the gallery; keeping what is shown", err);
+        } finally {
+            setIsLoadingData(false);
         }
-        setIsLoadingData(false);
     }
   };
 
-  const handleLogin = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (passwordInput === ARTIST_PASSWORD) {
-      setViewMode(ViewMode.ADMIN);
-      setPasswordInput('');
-      setLoginError(null);
-    } else {
-      setLoginError('Incorrect password');
-    }
+  useEffect(() => {
+    if (viewMode !== ViewMode.GALLERY || !isStoreConfigured(repoConfig)) return;
+    const key = storeKey(repoConfig);
+    if (key === indexedStore) return;
+    setIndexedStore(key);
+    fetchEmbeddingIndex(repoConfig)
+      .then(setEmbeddingIndex)
+      .catch(err => console.warn("Could not load search index", err));
+  }, [viewMode, indexedStore, repoConfig]);
+
+  const persistConfig = async (config: RepoConfig, passphrase: string) => {
+    const stored: StoredRepoConfig = {
+      owner: config.owner,
+      repo: config.repo,
+      branch: config.branch,
+      backend: config.backend,
+      local: config.local,
+      s3: config.s3,
+      // The local dev server needs no token, so there may be no passphrase to encrypt with
+      encryptedToken: config.token && passphrase ? await encryptToken(config.token, passphrase) : undefined,
+    };
+    // Replaces any plain-text token left behind by older versions
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(stored));
+    setStoredConfig(stored);
+  };
+
+  const handleAuthenticated = async (config: RepoConfig, passphrase: string) => {
+    await persistConfig(config, passphrase);
+    setRepoConfig(config);
+    setSessionPassphrase(passphrase);
+    setIsAuthenticated(true);
+    navigate({ view: ViewMode.ADMIN }, { replace: true });
   };
 
   const handleConfigUpdate = (newConfig: RepoConfig) => {
     setRepoConfig(newConfig);
-    // Persist config including token so artist doesn't have to re-enter it
-    localStorage.setItem(CONFIG_KEY, JSON.stringify(newConfig));
+    if (sessionPassphrase !== null) {
+      persistConfig(newConfig, sessionPassphrase).catch(console.error);
+    }
+  };
+
+  const handleLogout = () => {
+    // Drop the decrypted token from memory; only the encrypted copy remains
+    setRepoConfig(({ token, ...rest }) => rest);
+    setSessionPassphrase(null);
+    setIsAuthenticated(false);
+    setViewMode(ViewMode.HOME);
+  };
+
+  const handleLocaleChange = (newLocale: Locale) => {
+    setLocale(newLocale);
+    saveLocale(newLocale);
   };
 
-  const isConfigured = repoConfig.owner && repoConfig.repo;
+  useEffect(() => {
+    if (prerendered) setLocale(getInitialLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Keeps the tab title in step with the page, as the pre-rendered HTML sets it
+  const openArtworkTitle = route.artworkId ? localizedArtworks.find(art => art.id === route.artworkId)?.title : undefined;
+  useEffect(() => {
+    document.title = pageTitle(openArtworkTitle || (viewMode === ViewMode.ABOUT ? uiStrings(locale).about : undefined));
+  }, [openArtworkTitle, viewMode, locale]);
+
+  const isConfigured = isStoreConfigured(repoConfig);
+  const inquirySettings = siteSettings.inquiry;
+  const handleSubmitInquiry = isInquiryEnabled(inquirySettings)
+    ? (inquiry: Inquiry) => sendInquiry(inquiry, inquirySettings!, repoConfig)
+    : undefined;
 
   return (
     <div className="min-h-screen bg-stone-50 flex flex-col">
-      <Header viewMode={viewMode} setViewMode={setViewMode} />
+      <Header viewMode={viewMode} setViewMode={setViewMode} locale={locale} onLocaleChange={handleLocaleChange} />
       
       <main className="flex-grow">
+        {viewMode === ViewMode.HOME && (
+          <Home 
+            profile={profile} 
+            artworks={localizedArtworks} 
+            locale={locale}
+            onEnterGallery={() => setViewMode(ViewMode.GALLERY)} 
+            onSelectArtwork={(id) => navigate({ view: ViewMode.GALLERY, artworkId: id })}
+          />
+        )}
+
+        {viewMode === ViewMode.ABOUT && <About profile={profile} locale={locale} />}
+
+        {viewMode === ViewMode.COLLECTIONS && (
+          <CollectionsIndex
+            collections={collections}
+            artworks={localizedArtworks}
+            locale={locale}
+            onSelectCollection={(id) => navigate({ view: ViewMode.GALLERY, collection: id })}
+          />
+        )}
+
         {viewMode === ViewMode.GALLERY && (
           <>
-             {!isConfigured ? (
+             {isResolvingConfig ? (
+                 <div className="flex justify-center items-center h-64">
+                     <div className="animate-pulse text-stone-500 font-serif">{uiStrings(locale).loading}</div>
+                 </div>
+             ) : !isConfigured ? (
                  <div className="flex flex-col items-center justify-center min-h-[50vh] p-8 text-center">
                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-2xl">
                         <h2 className="text-xl font-serif text-yellow-800 mb-2">Setup Required</h2>
@@ -103,7 +253,7 @@ const App: React.FC = () => {
                         <p className="text-sm text-yellow-800/80 mb-4">
                             <strong>If you are the Artist:</strong> Log in to the Admin Panel to configure your repository. 
                             <br/>
-                            <strong>To make this public:</strong> You must update the <code>PUBLIC_REPO_CONFIG</code> in <code>App.tsx</code> with your GitHub username and repository name.
+                            <strong>To make this public:</strong> In the Admin Panel settings, use <em>Go Live</em> to publish <code>site-config.json</code>, or set <code>VITE_GALLERY_OWNER</code> and <code>VITE_GALLERY_REPO</code> when building.
                         </p>
                         <button 
                             onClick={() => setViewMode(ViewMode.LOGIN)}
@@ -117,10 +267,24 @@ const App: React.FC = () => {
                  <>
                     {isLoadingData && artworks.length === 0 ? (
                         <div className="flex justify-center items-center h-64">
-                            <div className="animate-pulse text-stone-400 font-serif">Loading Gallery...</div>
+                            <div className="animate-pulse text-stone-500 font-serif">{uiStrings(locale).loading}</div>
                         </div>
                     ) : (
-                        <Gallery artworks={artworks} />
+                        <Gallery 
+                            artworks={localizedArtworks}
+                            collections={collections}
+                            embeddingIndex={embeddingIndex}
+                            meaningSearchEnabled={siteSettings.search?.publicMeaningSearch}
+                            locale={locale}
+                            selectedArtworkId={route.artworkId}
+                            filters={galleryFilters}
+                            onSelectArtwork={(id) => navigate({ view: ViewMode.GALLERY, ...galleryFilters, artworkId: id })}
+                            onNavigateArtwork={(id) => navigate({ view: ViewMode.GALLERY, ...galleryFilters, artworkId: id }, { replace: true })}
+                            onCloseArtwork={() => navigateBack({ view: ViewMode.GALLERY, ...galleryFilters })}
+                            onFiltersChange={(filters, options) => navigate({ view: ViewMode.GALLERY, ...filters }, options)}
+                            onShowCollections={() => setViewMode(ViewMode.COLLECTIONS)}
+                            onSubmitInquiry={handleSubmitInquiry}
+                        />
                     )}
                  </>
              )}
@@ -128,44 +292,25 @@ const App: React.FC = () => {
         )}
 
         {viewMode === ViewMode.LOGIN && (
-          <div className="flex items-center justify-center min-h-[60vh] px-4">
-            <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-lg border border-stone-100">
-              <h2 className="text-2xl font-serif text-center mb-2 text-stone-900">Artist Access</h2>
-              <p className="text-center text-stone-500 text-sm mb-6">Enter the studio password to manage your collection.</p>
-              
-              <form onSubmit={handleLogin} className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-stone-700 mb-1">Password</label>
-                  <input
-                    type="password"
-                    value={passwordInput}
-                    onChange={(e) => setPasswordInput(e.target.value)}
-                    className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
-                    placeholder="Enter password..."
-                    autoFocus
-                  />
-                </div>
-                {loginError && <p className="text-red-500 text-sm">{loginError}</p>}
-                <button 
-                  type="submit"
-                  className="w-full py-2 bg-stone-900 text-white rounded hover:bg-stone-800 transition-colors"
-                >
-                  Enter Studio
-                </button>
-              </form>
-            </div>
-          </div>
+          <StudioLogin 
+            repoConfig={repoConfig}
+            storedConfig={storedConfig}
+            onAuthenticated={handleAuthenticated}
+          />
         )}
 
         {viewMode === ViewMode.ADMIN && (
           <AdminPanel 
             artworks={artworks} 
+            collections={collections}
+            invalidEntries={invalidEntries}
+            profile={profile}
+            siteSettings={siteSettings}
             repoConfig={repoConfig}
+            publicConfig={publicConfig}
             onConfigChange={handleConfigUpdate}
             onRefreshData={loadGalleryData}
-            onLogout={() => {
-                setViewMode(ViewMode.GALLERY);
-            }}
+            onLogout={handleLogout}
           />
         )}
       </main>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Locale, Profile } from '../types';
+import { uiStrings } from '../services/i18n';
+
+interface AboutProps {
+  profile: Profile | null;
+  locale: Locale;
+}
+
+export const About: React.FC<AboutProps> = ({ profile, locale }) => {
+  const t = uiStrings(locale);
+
+  if (!profile || !profile.aboutText) {
+    return (
+      <div className="min-h-[60vh] flex flex-col items-center justify-center text-center p-8">
+        <h3 className="text-xl font-serif text-stone-900 mb-2">{t.about}</h3>
+        <p className="text-stone-500 max-w-md">{t.aboutEmpty}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-12 px-4 sm:px-6 lg:px-8 max-w-6xl mx-auto">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-12 items-start">
+        {profile.aboutImageUrl && (
+          <div className="md:col-span-2 bg-stone-200 shadow-xl">
+            <img 
+              src={profile.aboutImageUrl} 
+              alt="Portrait of the artist" 
+              className="w-full h-auto object-cover"
+            />
+          </div>
+        )}
+        <div className={`space-y-6 ${profile.aboutImageUrl ? 'md:col-span-3' : 'md:col-span-5 max-w-3xl'}`}>
+          <h2 className="font-serif text-4xl text-stone-900">{t.about}</h2>
+          {profile.aboutText.split('\n\n').filter(Boolean).map((paragraph, idx) => (
+            <p key={idx} className="text-stone-700 leading-relaxed font-light text-lg">
+              {paragraph}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
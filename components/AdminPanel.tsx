@@ -1,11 +1,80 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Artwork, RepoConfig } from '../types';
-import { generateArtworkMetadata, fileToGenerativePart } from '../services/geminiService';
-import { uploadImageToGitHub, updateGalleryManifest, verifyRepoAccess, getRepoDetails } from '../services/githubService';
+import React, { useState, useEffect } from 'react';
+import { Artwork, ArtworkStatus, Collection, InquirySettings, InvalidManifestEntry, InquiryTransportKind, Profile, RepoConfig, SiteSettings } from '../types';
+import { ArtworkChanges, updateArtworksInManifest, deleteArtwork, updateProfile, updateSiteSettings, verifyStoreAccess, canWrite, describeStore, backendOf, isStoreConfigured } from '../services/galleryStore';
+import { getRepoDetails } from '../services/githubService';
+import { INQUIRY_TRANSPORT_LABELS } from '../services/inquiryService';
+import { translateArtworkText } from '../services/metadataProvider';
+import { MetadataError } from '../services/metadataErrors';
+import { baseText, missingLocales, sourceLocaleOf, uiStrings } from '../services/i18n';
+import { UploadQueue } from './UploadQueue';
+import { ArtworkImage } from './ArtworkImage';
+import { DuplicateReport } from './DuplicateReport';
+import { ArtworkEditor } from './ArtworkEditor';
+import { CollectionsEditor } from './CollectionsEditor';
+import { InquiryInbox } from './InquiryInbox';
+import { StoreSettingsFields } from './StoreSettingsFields';
+import { InvalidEntriesNotice } from './InvalidEntriesNotice';
+import { HistoryPanel } from './HistoryPanel';
+import { SearchIndexPanel } from './SearchIndexPanel';
+import { CuratorVoicePanel } from './CuratorVoicePanel';
+import { StatusBadge, ARTWORK_STATUS_LABELS } from './StatusBadge';
+import { ARTWORK_STATUSES, statusOf } from '../services/artworkStatus';
+import { availabilityLabel } from '../services/catalog';
+import { useOfflinePublishQueue } from '../services/offlineQueue';
+import { isSamePublicConfig, publishSiteConfig, PUBLIC_CONFIG_SOURCE_LABELS, ResolvedPublicConfig, serializeSiteConfig, SITE_CONFIG_FILE, SITE_CONFIG_REPO_PATH } from '../services/siteConfig';
+
+const EMPTY_PROFILE: Profile = {
+  welcomeMessage: '',
+  featuredImageUrl: '',
+  aboutText: '',
+  aboutImageUrl: '',
+};
+
+interface ProfileImagePickerProps {
+  label: string;
+  value: string;
+  artworks: Artwork[];
+  onChange: (url: string) => void;
+}
+
+const ProfileImagePicker: React.FC<ProfileImagePickerProps> = ({ label, value, artworks, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-stone-700 mb-1">{label}</label>
+    <div className="flex gap-4 items-start">
+      {value && <img src={value} alt="" className="w-20 h-20 object-cover rounded border border-stone-200" />}
+      <div className="flex-1 space-y-2">
+        <select
+          value={artworks.some(art => art.imageUrl === value) ? value : ''}
+          onChange={(e) => e.target.value && onChange(e.target.value)}
+          className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white"
+        >
+          <option value="">Choose from collection...</option>
+          {artworks.map(art => (
+            <option key={art.id} value={art.imageUrl}>{art.title}</option>
+          ))}
+        </select>
+        <input 
+          type="text" 
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 text-xs font-mono"
+          placeholder="https://..."
+        />
+      </div>
+    </div>
+  </div>
+);
 
 interface AdminPanelProps {
   artworks: Artwork[];
+  collections: Collection[];
+  // gallery.json entries skipped on load because they failed validation
+  invalidEntries: InvalidManifestEntry[];
+  profile: Profile | null;
+  siteSettings: SiteSettings;
   repoConfig: RepoConfig;
+  // What visitors read from, as resolved at page load; null when nothing is deployed yet
+  publicConfig: ResolvedPublicConfig | null;
   onConfigChange: (config: RepoConfig) => void;
   onRefreshData: () => void;
   onLogout: () => void;
@@ -13,134 +82,165 @@ interface AdminPanelProps {
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({ 
   artworks, 
+  collections,
+  invalidEntries,
+  profile,
+  siteSettings,
   repoConfig, 
+  publicConfig,
   onConfigChange, 
   onRefreshData,
   onLogout 
 }) => {
-  const [activeTab, setActiveTab] = useState<'upload' | 'settings'>('upload');
-  const [isUploading, setIsUploading] = useState(false);
-  const [isAnalysing, setIsAnalysing] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<string>('');
-  
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [file, setFile] = useState<File | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Form State
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [medium, setMedium] = useState('');
-  const [tags, setTags] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<'upload' | 'profile' | 'collections' | 'inquiries' | 'duplicates' | 'history' | 'settings'>('upload');
   const [error, setError] = useState<string | null>(null);
+  const offlineQueue = useOfflinePublishQueue(repoConfig, siteSettings.curator, onRefreshData);
+  const queuedArtworkCount = offlineQueue.pending.reduce((sum, entry) => sum + entry.uploads.length, 0);
 
   // Settings State
   const [localConfig, setLocalConfig] = useState<RepoConfig>(repoConfig);
   const [isVerifying, setIsVerifying] = useState(false);
   const [configSuccess, setConfigSuccess] = useState(false);
   const [repoWarning, setRepoWarning] = useState<string | null>(null);
+  const [isPublishingSiteConfig, setIsPublishingSiteConfig] = useState(false);
+  const [siteConfigPublished, setSiteConfigPublished] = useState(false);
+  const [siteConfigError, setSiteConfigError] = useState<string | null>(null);
+  const isLive = publicConfig !== null && isSamePublicConfig(publicConfig.config, localConfig);
+
+  // Collection Management State
+  const [editingArtwork, setEditingArtwork] = useState<Artwork | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [manageError, setManageError] = useState<string | null>(null);
+  const [translateStatus, setTranslateStatus] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ArtworkStatus | 'all'>('all');
+
+  // Inquiry Settings State
+  const [inquiryDraft, setInquiryDraft] = useState<InquirySettings>(siteSettings.inquiry || { transport: 'none' });
+  const [isSavingInquiry, setIsSavingInquiry] = useState(false);
+  const [inquirySaved, setInquirySaved] = useState(false);
+  const [inquiryError, setInquiryError] = useState<string | null>(null);
+
+  // Profile State
+  const [profileDraft, setProfileDraft] = useState<Profile>(profile || EMPTY_PROFILE);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [profileSaved, setProfileSaved] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (profile) setProfileDraft(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    if (siteSettings.inquiry) setInquiryDraft(siteSettings.inquiry);
+  }, [siteSettings]);
 
   useEffect(() => {
-    // If we don't have a token or repo configured, force the settings tab
-    if (!repoConfig.owner || !repoConfig.repo || !repoConfig.token) {
+    // If there is no store we can write to, force the settings tab
+    if (!canWrite(repoConfig)) {
       setActiveTab('settings');
     }
   }, [repoConfig]);
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      setFile(selectedFile);
-      const url = URL.createObjectURL(selectedFile);
-      setPreviewUrl(url);
-      
-      // Reset fields
-      setTitle('');
-      setDescription('');
-      setMedium('');
-      setTags([]);
-      setError(null);
-    }
-  };
+  const untranslated = artworks.filter(art => missingLocales(art).length > 0);
+  const statusCounts = ARTWORK_STATUSES.reduce((counts, status) => {
+    counts[status] = artworks.filter(art => statusOf(art) === status).length;
+    return counts;
+  }, {} as Record<ArtworkStatus, number>);
+  const managedArtworks = statusFilter === 'all' ? artworks : artworks.filter(art => statusOf(art) === statusFilter);
 
-  const handleAnalyze = async () => {
-    if (!file || !previewUrl) return;
+  // Fills in every missing translation across the collection, then saves them in one commit
+  const handleTranslateMissing = async () => {
+    setManageError(null);
+    const changes: Record<string, ArtworkChanges> = {};
+    let failures = 0;
+    let lastError: unknown = null;
 
-    setIsAnalysing(true);
-    setError(null);
+    for (const [idx, art] of untranslated.entries()) {
+      setTranslateStatus(`Translating ${idx + 1} of ${untranslated.length}...`);
+      try {
+        const source = baseText(art);
+        const translations = await translateArtworkText(source, sourceLocaleOf(art), missingLocales(art), siteSettings.curator);
+        // Merged into the entry as stored at save time, so edits made while translating survive.
+        // Translations of text that has since changed are dropped, and ones added meanwhile are kept.
+        changes[art.id] = current => JSON.stringify(baseText(current)) === JSON.stringify(source)
+          ? { locale: sourceLocaleOf(current), translations: { ...translations, ...current.translations } }
+          : {};
+      } catch (err) {
+        console.error(err);
+        failures++;
+        lastError = err;
+        // Every other artwork would fail the same way
+        if (err instanceof MetadataError && err.kind === 'auth') break;
+      }
+    }
 
     try {
-      const base64Data = await fileToGenerativePart(file);
-      const metadata = await generateArtworkMetadata(base64Data, file.type);
-      
-      setTitle(metadata.title);
-      setDescription(metadata.description);
-      setMedium(metadata.medium);
-      setTags(metadata.tags);
-    } catch (err) {
-      setError("Failed to analyze image. Ensure API Key is valid.");
+      const count = Object.keys(changes).length;
+      if (count > 0) {
+        setTranslateStatus('Saving translations...');
+        await updateArtworksInManifest(changes, `Translate ${count} artworks`, repoConfig);
+        onRefreshData();
+      }
+      if (failures > 0) {
+        const reason = lastError instanceof MetadataError ? ` ${lastError.message}` : '';
+        setManageError(`${failures} artworks could not be translated.${reason}`);
+      }
+    } catch (err: any) {
       console.error(err);
+      setManageError(err.message || "Failed to save translations");
     } finally {
-      setIsAnalysing(false);
+      setTranslateStatus('');
     }
   };
 
-  const handlePublish = async () => {
-    if (!file || !title) {
-      setError("Please select an image and ensure a title is set.");
-      return;
-    }
-    if (!repoConfig.token) {
-        setError("GitHub Token is missing. Please check Settings.");
-        return;
-    }
+  const handleDelete = async (art: Artwork) => {
+    if (!window.confirm(`Delete "${art.title}" from the gallery? This removes the image from the repository.`)) return;
 
-    setIsUploading(true);
-    setUploadStatus('Preparing...');
-    
+    setDeletingId(art.id);
+    setManageError(null);
     try {
-        const base64Data = await fileToGenerativePart(file);
-        
-        setUploadStatus('Uploading image to GitHub...');
-        const imageUrl = await uploadImageToGitHub(file, base64Data, repoConfig);
-        
-        setUploadStatus('Updating gallery manifest...');
-        const newArtwork: Artwork = {
-            id: crypto.randomUUID(),
-            imageUrl,
-            title,
-            description,
-            medium,
-            tags,
-            createdAt: Date.now()
-        };
-        
-        await updateGalleryManifest(newArtwork, repoConfig);
-        
-        setUploadStatus('Success!');
-        onRefreshData();
-        resetForm();
-        setTimeout(() => {
-            setIsUploading(false);
-            setUploadStatus('');
-        }, 1500);
+      await deleteArtwork(art.id, repoConfig);
+      onRefreshData();
+    } catch (err: any) {
+      console.error(err);
+      setManageError(err.message || "Failed to delete artwork");
+    } finally {
+      setDeletingId(null);
+    }
+  };
 
+  const handleSaveProfile = async () => {
+    setIsSavingProfile(true);
+    setProfileError(null);
+    setProfileSaved(false);
+    try {
+      await updateProfile(profileDraft, repoConfig);
+      setProfileSaved(true);
+      onRefreshData();
+      setTimeout(() => setProfileSaved(false), 2000);
     } catch (err: any) {
-        console.error(err);
-        setError(err.message || "Failed to publish artwork");
-        setIsUploading(false);
-        setUploadStatus('');
+      console.error(err);
+      setProfileError(err.message || "Failed to save profile");
+    } finally {
+      setIsSavingProfile(false);
     }
   };
 
-  const resetForm = () => {
-    setFile(null);
-    setPreviewUrl(null);
-    setTitle('');
-    setDescription('');
-    setMedium('');
-    setTags([]);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const handleSaveInquirySettings = async () => {
+    setIsSavingInquiry(true);
+    setInquiryError(null);
+    setInquirySaved(false);
+    try {
+      await updateSiteSettings({ ...siteSettings, inquiry: inquiryDraft }, repoConfig);
+      setInquirySaved(true);
+      onRefreshData();
+      setTimeout(() => setInquirySaved(false), 2000);
+    } catch (err: any) {
+      console.error(err);
+      setInquiryError(err.message || "Failed to save inquiry settings");
+    } finally {
+      setIsSavingInquiry(false);
+    }
   };
 
   const saveSettings = async () => {
@@ -148,22 +248,27 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
       setError(null);
       setRepoWarning(null);
       setConfigSuccess(false);
+      setSiteConfigPublished(false);
+      setSiteConfigError(null);
       try {
-          const isValid = await verifyRepoAccess(localConfig);
+          const isValid = await verifyStoreAccess(localConfig);
           if (isValid) {
               // Check visibility
-              const details = await getRepoDetails(localConfig);
+              const details = backendOf(localConfig) === 'github' ? await getRepoDetails(localConfig) : null;
               if (details && details.private) {
                 setRepoWarning("Warning: This repository is set to PRIVATE. Images uploaded here will NOT be visible on the public website. Please change the repository visibility to Public in GitHub Settings.");
               }
 
               onConfigChange(localConfig);
               setConfigSuccess(true);
-              if (!details?.private) {
+              // Stay here while the gallery still has to go live
+              if (!details?.private && isLive) {
                 setTimeout(() => setActiveTab('upload'), 1000);
               }
           } else {
-              setError("Could not access repository. Check Owner, Repo, and Token permissions.");
+              setError(backendOf(localConfig) === 'github'
+                  ? "Could not push to repository. Check Owner, Repo, and Token permissions."
+                  : `Could not reach ${describeStore(localConfig)}. Check the settings above.`);
           }
       } catch (e) {
           setError("Verification failed.");
@@ -172,24 +277,79 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
       }
   };
 
+  // Only called after saveSettings has verified write access to localConfig
+  const goLive = async () => {
+      setIsPublishingSiteConfig(true);
+      setSiteConfigError(null);
+      try {
+          await publishSiteConfig(localConfig, localConfig);
+          setSiteConfigPublished(true);
+      } catch (err: any) {
+          console.error(err);
+          setSiteConfigError(err.message || "Failed to publish the site config");
+      } finally {
+          setIsPublishingSiteConfig(false);
+      }
+  };
+
+  const siteConfigDownloadUrl = () =>
+      `data:application/json;charset=utf-8,${encodeURIComponent(serializeSiteConfig(localConfig) + '\n')}`;
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
       <div className="flex flex-col md:flex-row justify-between items-center mb-8 border-b border-stone-200 pb-4">
         <div className="mb-4 md:mb-0">
            <h2 className="text-2xl font-serif text-stone-900">Curator Dashboard</h2>
            <p className="text-stone-500 text-sm mt-1">
-               {repoConfig.owner && repoConfig.repo ? `Connected to ${repoConfig.owner}/${repoConfig.repo}` : 'Not connected to a repository'}
+               {isStoreConfigured(repoConfig) ? `Connected to ${describeStore(repoConfig)}` : 'Not connected to a gallery store'}
            </p>
         </div>
         <div className="flex gap-4">
             <button 
                 onClick={() => setActiveTab('upload')}
+                aria-current={activeTab === 'upload' ? 'page' : undefined}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'upload' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
             >
                 Upload
             </button>
+            <button 
+                onClick={() => setActiveTab('profile')}
+                aria-current={activeTab === 'profile' ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'profile' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
+            >
+                Profile
+            </button>
+            <button 
+                onClick={() => setActiveTab('collections')}
+                aria-current={activeTab === 'collections' ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'collections' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
+            >
+                Collections
+            </button>
+            <button 
+                onClick={() => setActiveTab('inquiries')}
+                aria-current={activeTab === 'inquiries' ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'inquiries' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
+            >
+                Inquiries
+            </button>
+            <button 
+                onClick={() => setActiveTab('duplicates')}
+                aria-current={activeTab === 'duplicates' ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'duplicates' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
+            >
+                Duplicates
+            </button>
+            <button 
+                onClick={() => setActiveTab('history')}
+                aria-current={activeTab === 'history' ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'history' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
+            >
+                History
+            </button>
             <button 
                 onClick={() => setActiveTab('settings')}
+                aria-current={activeTab === 'settings' ? 'page' : undefined}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${activeTab === 'settings' ? 'bg-stone-100 text-stone-900' : 'text-stone-500 hover:text-stone-900'}`}
             >
                 Settings
@@ -204,61 +364,139 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
         </div>
       </div>
 
+      {(!offlineQueue.isOnline || offlineQueue.pending.length > 0 || offlineQueue.error) && (
+          <div className="mb-8 p-4 bg-stone-100 border border-stone-200 rounded-lg text-sm text-stone-700 space-y-2" role="status">
+              {!offlineQueue.isOnline && (
+                  <p><strong>You are offline.</strong> Publishes are saved on this device and committed when the connection returns.</p>
+              )}
+              {offlineQueue.pending.length > 0 && (
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                      <p>
+                          {offlineQueue.progress || `${queuedArtworkCount} ${queuedArtworkCount === 1 ? 'artwork' : 'artworks'} waiting to be published (${offlineQueue.pending.length} ${offlineQueue.pending.length === 1 ? 'batch' : 'batches'}).`}
+                      </p>
+                      <div className="flex gap-3 text-xs font-medium">
+                          {offlineQueue.isOnline && (
+                              <button
+                                  onClick={offlineQueue.replay}
+                                  disabled={offlineQueue.isReplaying || !canWrite(repoConfig)}
+                                  className="text-stone-900 hover:underline disabled:opacity-50"
+                              >
+                                  {offlineQueue.isReplaying ? 'Publishing...' : 'Publish now'}
+                              </button>
+                          )}
+                          {!offlineQueue.isReplaying && offlineQueue.pending.map(entry => (
+                              <button
+                                  key={entry.id}
+                                  onClick={() => window.confirm(`Discard ${entry.uploads.length} queued ${entry.uploads.length === 1 ? 'artwork' : 'artworks'} from ${new Date(entry.queuedAt).toLocaleString()}?`) && offlineQueue.discard(entry.id)}
+                                  className="text-red-600 hover:text-red-800"
+                              >
+                                  Discard batch from {new Date(entry.queuedAt).toLocaleTimeString()}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+              )}
+              {offlineQueue.error && <p className="text-red-600">Queued publish failed: {offlineQueue.error}</p>}
+          </div>
+      )}
+
+      <InvalidEntriesNotice entries={invalidEntries} repoConfig={repoConfig} onChanged={onRefreshData} />
+
+      {activeTab === 'profile' && (
+          <div className="max-w-3xl mx-auto bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+              <h3 className="text-xl font-medium text-stone-900 mb-2">Artist Profile</h3>
+              <p className="text-stone-500 text-sm mb-6">
+                  This text appears on the Home and About pages. Separate paragraphs with a blank line.
+              </p>
+
+              <div className="space-y-6">
+                  <div>
+                      <label className="block text-sm font-medium text-stone-700 mb-1">Welcome Message</label>
+                      <textarea 
+                          value={profileDraft.welcomeMessage}
+                          onChange={(e) => setProfileDraft({...profileDraft, welcomeMessage: e.target.value})}
+                          rows={5}
+                          className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                      />
+                  </div>
+                  <ProfileImagePicker 
+                      label="Featured Image (Home)"
+                      value={profileDraft.featuredImageUrl}
+                      artworks={artworks}
+                      onChange={(url) => setProfileDraft({...profileDraft, featuredImageUrl: url})}
+                  />
+                  <div>
+                      <label className="block text-sm font-medium text-stone-700 mb-1">About Text</label>
+                      <textarea 
+                          value={profileDraft.aboutText}
+                          onChange={(e) => setProfileDraft({...profileDraft, aboutText: e.target.value})}
+                          rows={8}
+                          className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                      />
+                  </div>
+                  <ProfileImagePicker 
+                      label="About Image"
+                      value={profileDraft.aboutImageUrl}
+                      artworks={artworks}
+                      onChange={(url) => setProfileDraft({...profileDraft, aboutImageUrl: url})}
+                  />
+
+                  <div className="pt-4 border-t border-stone-100">
+                      <button 
+                          onClick={handleSaveProfile}
+                          disabled={isSavingProfile || !canWrite(repoConfig)}
+                          className={`w-full py-2 rounded font-medium text-white transition-colors disabled:opacity-50 ${profileSaved ? 'bg-green-600' : 'bg-stone-900 hover:bg-stone-800'}`}
+                      >
+                          {isSavingProfile ? 'Saving...' : profileSaved ? 'Saved!' : 'Save Profile'}
+                      </button>
+                      {profileError && <p className="text-red-500 text-sm mt-2 text-center">{profileError}</p>}
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {activeTab === 'collections' && (
+          <CollectionsEditor artworks={artworks} collections={collections} repoConfig={repoConfig} onChanged={onRefreshData} />
+      )}
+
+      {activeTab === 'inquiries' && (
+          <InquiryInbox
+              settings={siteSettings.inquiry}
+              artworks={artworks}
+              repoConfig={repoConfig}
+              onConfigure={() => setActiveTab('settings')}
+          />
+      )}
+
+      {activeTab === 'duplicates' && (
+          <DuplicateReport artworks={artworks} repoConfig={repoConfig} onChanged={onRefreshData} />
+      )}
+
+      {activeTab === 'history' && (
+          backendOf(repoConfig) === 'github' ? (
+              <HistoryPanel repoConfig={repoConfig} onRestored={onRefreshData} />
+          ) : (
+              <div className="max-w-2xl mx-auto bg-white p-8 rounded-lg shadow-sm border border-stone-200 text-sm text-stone-500">
+                  Version history comes from the Git commit log, so it is only available when the gallery is stored in a GitHub repository.
+                  The current storage, {describeStore(repoConfig)}, keeps only the latest version.
+              </div>
+          )
+      )}
+
       {activeTab === 'settings' && (
           <div className="max-w-2xl mx-auto bg-white p-8 rounded-lg shadow-sm border border-stone-200">
-              <h3 className="text-xl font-medium text-stone-900 mb-6">Repository Configuration</h3>
+              <h3 className="text-xl font-medium text-stone-900 mb-6">Storage Configuration</h3>
               <p className="text-stone-500 text-sm mb-6 bg-stone-50 p-4 rounded">
-                  Configure the GitHub repository where your gallery data and images will be stored. 
-                  The repository must be <strong>Public</strong> for images to be visible on the website.
+                  Choose where your gallery data and images are stored. Whichever you pick must be
+                  <strong> publicly readable</strong> for images to be visible on the website.
               </p>
               
               <div className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">GitHub Username</label>
-                        <input 
-                            type="text" 
-                            value={localConfig.owner}
-                            onChange={(e) => setLocalConfig({...localConfig, owner: e.target.value})}
-                            className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
-                            placeholder="e.g., octocat"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">Repository Name</label>
-                        <input 
-                            type="text" 
-                            value={localConfig.repo}
-                            onChange={(e) => setLocalConfig({...localConfig, repo: e.target.value})}
-                            className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
-                            placeholder="e.g., my-art-gallery"
-                        />
-                      </div>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-stone-700 mb-1">Branch</label>
-                    <input 
-                        type="text" 
-                        value={localConfig.branch}
-                        onChange={(e) => setLocalConfig({...localConfig, branch: e.target.value})}
-                        className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
-                        placeholder="main"
-                    />
-                  </div>
-                  
-                  <div className="pt-2">
-                    <label className="block text-sm font-medium text-stone-700 mb-1">GitHub Personal Access Token (Classic)</label>
-                    <input 
-                        type="password" 
-                        value={localConfig.token || ''}
-                        onChange={(e) => setLocalConfig({...localConfig, token: e.target.value})}
-                        className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
-                        placeholder="ghp_..."
-                    />
-                    <p className="text-xs text-stone-500 mt-1">
-                        Token must have <code>repo</code> scope.
-                    </p>
-                  </div>
+                  <StoreSettingsFields
+                      value={localConfig}
+                      onChange={setLocalConfig}
+                      inputClass="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
+                  />
 
                   <div className="pt-4 mt-4 border-t border-stone-100">
                       <button 
@@ -278,177 +516,222 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                   
                   {configSuccess && (
                      <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded">
-                        <h4 className="text-blue-900 font-medium mb-2">🚀 Make Site Public</h4>
+                        <h4 className="text-blue-900 font-medium mb-2">🚀 Go Live</h4>
                         <p className="text-sm text-blue-800 mb-3">
-                            To make the gallery visible to visitors who are not logged in, you must manually update 
-                            the <code>App.tsx</code> file with your repository details.
-                        </p>
-                        <div className="bg-white p-3 rounded border border-blue-100 font-mono text-xs text-stone-600 overflow-x-auto">
-                            const PUBLIC_REPO_CONFIG: RepoConfig = &#123;<br/>
-                            &nbsp;&nbsp;owner: '{localConfig.owner}',<br/>
-                            &nbsp;&nbsp;repo: '{localConfig.repo}',<br/>
-                            &nbsp;&nbsp;branch: '{localConfig.branch}',<br/>
-                            &#125;;
-                        </div>
-                        <p className="text-xs text-blue-700 mt-2">
-                            Copy the code above and paste it into the <code>PUBLIC_REPO_CONFIG</code> section at the top of <strong>App.tsx</strong>.
+                            {publicConfig
+                              ? <>Visitors currently see {describeStore(publicConfig.config)}, found through {PUBLIC_CONFIG_SOURCE_LABELS[publicConfig.source]}.</>
+                              : <>Visitors who are not logged in do not see a gallery yet.</>}
                         </p>
+                        {isLive ? (
+                            <p className="text-sm text-green-700">✓ The public site already reads from this storage.</p>
+                        ) : backendOf(localConfig) === 'github' ? (
+                            <>
+                              <p className="text-sm text-blue-800 mb-3">
+                                  This commits <code>{SITE_CONFIG_REPO_PATH}</code> to this repository. The public site does not change
+                                  until it is rebuilt and deployed from it; until then visitors keep seeing the current gallery. No token or key is included.
+                              </p>
+                              <button
+                                onClick={goLive}
+                                disabled={isPublishingSiteConfig || siteConfigPublished}
+                                className="w-full py-2 rounded font-medium text-white bg-blue-700 hover:bg-blue-800 disabled:opacity-60 transition-colors"
+                              >
+                                  {isPublishingSiteConfig ? 'Committing...' : siteConfigPublished ? 'Committed' : 'Commit Site Config'}
+                              </button>
+                              {siteConfigPublished && (
+                                <p className="text-xs text-blue-700 mt-2">Committed. Rebuild and deploy the site for visitors to see this gallery.</p>
+                              )}
+                              {siteConfigError && <p className="text-red-500 text-sm mt-2 text-center">{siteConfigError}</p>}
+                            </>
+                        ) : (
+                            <>
+                              <p className="text-sm text-blue-800 mb-3">
+                                  Put this file next to <code>index.html</code> on your web host, or in <code>public/</code> before building.
+                                  No token or key is included.
+                              </p>
+                              <pre className="bg-white p-3 rounded border border-blue-100 font-mono text-xs text-stone-600 overflow-x-auto mb-3">
+                                  {serializeSiteConfig(localConfig)}
+                              </pre>
+                              <a
+                                href={siteConfigDownloadUrl()}
+                                download={SITE_CONFIG_FILE}
+                                className="block w-full py-2 rounded font-medium text-center text-white bg-blue-700 hover:bg-blue-800 transition-colors"
+                              >
+                                  Download {SITE_CONFIG_FILE}
+                              </a>
+                            </>
+                        )}
                      </div>
                   )}
               </div>
           </div>
       )}
 
-      {activeTab === 'upload' && (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
-            {/* Left Col: Upload & Preview */}
-            <div className="space-y-6">
-            <div 
-                className={`border-2 border-dashed rounded-lg p-8 flex flex-col items-center justify-center text-center transition-colors min-h-[300px] ${
-                    previewUrl ? 'border-stone-200 bg-stone-50' : 'border-stone-300 hover:border-stone-400 hover:bg-stone-50 cursor-pointer'
-                }`}
-                onClick={() => !previewUrl && fileInputRef.current?.click()}
-            >
-                {previewUrl ? (
-                    <div className="relative w-full h-full">
-                        <img src={previewUrl} alt="Preview" className="max-h-[400px] mx-auto object-contain shadow-lg" />
-                        <button 
-                            onClick={(e) => { e.stopPropagation(); resetForm(); }}
-                            className="absolute top-2 right-2 bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 shadow-sm"
-                        >
-                            ✕
-                        </button>
-                    </div>
-                ) : (
-                    <div className="space-y-4">
-                        <div className="w-16 h-16 bg-stone-100 rounded-full flex items-center justify-center mx-auto text-stone-400">
-                            <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                        </div>
-                        <div>
-                            <p className="text-lg font-medium text-stone-900">Click to upload artwork</p>
-                            <p className="text-sm text-stone-500">JPG, PNG up to 5MB</p>
-                        </div>
-                    </div>
-                )}
-                <input 
-                    type="file" 
-                    ref={fileInputRef} 
-                    className="hidden" 
-                    accept="image/*" 
-                    onChange={handleFileChange}
-                />
-            </div>
-
-            {previewUrl && (
-                <button
-                    onClick={handleAnalyze}
-                    disabled={isAnalysing || isUploading}
-                    className="w-full py-3 bg-stone-100 text-stone-900 border border-stone-200 font-medium rounded shadow-sm hover:bg-stone-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-all"
-                >
-                    {isAnalysing ? (
-                        <>
-                            <svg className="animate-spin h-5 w-5 text-stone-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                            Analysing with Gemini...
-                        </>
-                    ) : (
-                        <>
-                            <span>✨</span> Auto-Generate Metadata
-                        </>
-                    )}
-                </button>
-            )}
-            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
-            </div>
-
-            {/* Right Col: Metadata Form */}
-            <div className="bg-white p-8 rounded-lg shadow-sm border border-stone-200 relative overflow-hidden">
-                {isUploading && (
-                    <div className="absolute inset-0 bg-white/90 backdrop-blur-sm z-10 flex flex-col items-center justify-center">
-                         <svg className="animate-spin h-8 w-8 text-stone-900 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                         <p className="text-stone-900 font-medium">{uploadStatus}</p>
-                         <p className="text-stone-500 text-xs mt-2">Note: Public updates may take up to 5 mins to appear.</p>
-                    </div>
-                )}
-
-                <h3 className="text-lg font-medium text-stone-900 mb-6">Artwork Details</h3>
-                <div className="space-y-5">
-                    <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">Title</label>
-                        <input 
-                            type="text" 
-                            value={title}
-                            onChange={(e) => setTitle(e.target.value)}
-                            className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none transition-shadow"
-                            placeholder="Untitled"
-                        />
-                    </div>
-                    
-                    <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">Medium</label>
-                        <input 
-                            type="text" 
-                            value={medium}
-                            onChange={(e) => setMedium(e.target.value)}
-                            className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none transition-shadow"
-                            placeholder="e.g. Oil on Canvas"
-                        />
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">Curatorial Description</label>
-                        <textarea 
-                            value={description}
-                            onChange={(e) => setDescription(e.target.value)}
-                            rows={6}
-                            className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none transition-shadow"
-                            placeholder="Generated description will appear here..."
-                        />
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1">Tags</label>
-                        <div className="flex flex-wrap gap-2 mb-2">
-                            {tags.map((tag, idx) => (
-                                <span key={idx} className="bg-stone-100 text-stone-700 px-2 py-1 rounded text-xs flex items-center gap-1">
-                                    {tag}
-                                    <button onClick={() => setTags(tags.filter((_, i) => i !== idx))} className="hover:text-red-500">×</button>
-                                </span>
-                            ))}
-                        </div>
-                    </div>
-                    
-                    <div className="pt-4 border-t border-stone-100">
-                        <button 
-                            onClick={handlePublish}
-                            disabled={isUploading || !title}
-                            className="w-full py-3 bg-stone-900 text-white font-serif tracking-wide rounded hover:bg-stone-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                            Publish to Gallery
-                        </button>
-                    </div>
-                </div>
-            </div>
-        </div>
+      {activeTab === 'settings' && (
+          <div className="max-w-2xl mx-auto mt-8 bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+              <h3 className="text-xl font-medium text-stone-900 mb-2">Inquiries</h3>
+              <p className="text-stone-500 text-sm mb-6">
+                  How the "Inquire about this work" form in the gallery reaches you. Stored in <code>settings.json</code>, which every visitor can read.
+              </p>
+              <div className="space-y-4">
+                  <div>
+                      <label className="block text-sm font-medium text-stone-700 mb-1">Channel</label>
+                      <select
+                          value={inquiryDraft.transport}
+                          onChange={(e) => setInquiryDraft({...inquiryDraft, transport: e.target.value as InquiryTransportKind})}
+                          className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white"
+                      >
+                          {(Object.keys(INQUIRY_TRANSPORT_LABELS) as InquiryTransportKind[]).map(kind => (
+                              <option key={kind} value={kind}>{INQUIRY_TRANSPORT_LABELS[kind]}</option>
+                          ))}
+                      </select>
+                  </div>
+                  {inquiryDraft.transport === 'mailto' && (
+                      <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1">Email Address</label>
+                          <input 
+                              type="email" 
+                              value={inquiryDraft.email || ''}
+                              onChange={(e) => setInquiryDraft({...inquiryDraft, email: e.target.value})}
+                              className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
+                              placeholder="studio@example.com"
+                          />
+                      </div>
+                  )}
+                  {inquiryDraft.transport === 'webhook' && (
+                      <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1">Webhook URL</label>
+                          <input 
+                              type="url" 
+                              value={inquiryDraft.webhookUrl || ''}
+                              onChange={(e) => setInquiryDraft({...inquiryDraft, webhookUrl: e.target.value})}
+                              className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 font-mono text-xs"
+                              placeholder="https://..."
+                          />
+                          <p className="text-xs text-stone-500 mt-1">
+                              Receives each inquiry as a JSON POST. While running <code>npm run dev</code>, use <code>http://localhost:3000/api/inquiries</code> to test.
+                          </p>
+                      </div>
+                  )}
+                  {inquiryDraft.transport === 'github' && (
+                      <p className="text-xs text-stone-500">
+                          Visitors are sent to a pre-filled issue on {repoConfig.owner}/{repoConfig.repo}. Issues must be enabled for the repository.
+                      </p>
+                  )}
+                  <button 
+                      onClick={handleSaveInquirySettings}
+                      disabled={isSavingInquiry || !canWrite(repoConfig)}
+                      className={`w-full py-2 rounded font-medium text-white transition-colors disabled:opacity-50 ${inquirySaved ? 'bg-green-600' : 'bg-stone-900 hover:bg-stone-800'}`}
+                  >
+                      {isSavingInquiry ? 'Saving...' : inquirySaved ? 'Saved!' : 'Save Inquiry Settings'}
+                  </button>
+                  {inquiryError && <p className="text-red-500 text-sm mt-2 text-center">{inquiryError}</p>}
+              </div>
+          </div>
+      )}
+
+      {activeTab === 'settings' && canWrite(repoConfig) && (
+          <CuratorVoicePanel siteSettings={siteSettings} repoConfig={repoConfig} onChanged={onRefreshData} />
+      )}
+
+      {activeTab === 'settings' && canWrite(repoConfig) && (
+          <SearchIndexPanel artworks={artworks} siteSettings={siteSettings} repoConfig={repoConfig} onChanged={onRefreshData} />
       )}
 
+      {/* Kept mounted while hidden so switching tabs does not discard queued drafts */}
+      <div className={activeTab === 'upload' ? '' : 'hidden'}>
+        <UploadQueue
+          artworks={artworks}
+          repoConfig={repoConfig}
+          curator={siteSettings.curator}
+          isOnline={offlineQueue.isOnline}
+          onPublished={onRefreshData}
+          onQueueOffline={offlineQueue.enqueue}
+        />
+      </div>
+
       {/* Existing Artworks List */}
       <div className="mt-16">
-          <h3 className="text-xl font-serif text-stone-900 mb-6">Manage Collection ({artworks.length})</h3>
-          <p className="text-stone-500 text-sm mb-4">Note: Deleting items from the UI currently requires manual removal from the JSON/Images on GitHub to fully sync.</p>
+          <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-serif text-stone-900">Manage Collection ({artworks.length})</h3>
+              {untranslated.length > 0 && (
+                  <button
+                      onClick={handleTranslateMissing}
+                      disabled={!canWrite(repoConfig) || translateStatus !== ''}
+                      className="px-4 py-2 border border-stone-300 rounded text-sm text-stone-700 hover:bg-stone-50 disabled:opacity-50"
+                  >
+                      {translateStatus || `✨ Translate ${untranslated.length} into all site languages`}
+                  </button>
+              )}
+          </div>
+          <div className="flex flex-wrap gap-2 mb-6">
+              {(['all', ...ARTWORK_STATUSES] as (ArtworkStatus | 'all')[]).map(option => (
+                  <button
+                      key={option}
+                      onClick={() => setStatusFilter(option)}
+                      aria-pressed={statusFilter === option}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${statusFilter === option ? 'bg-stone-900 text-white' : 'bg-stone-100 text-stone-600 hover:text-stone-900'}`}
+                  >
+                      {option === 'all' ? `All (${artworks.length})` : `${ARTWORK_STATUS_LABELS[option]} (${statusCounts[option]})`}
+                  </button>
+              ))}
+          </div>
+          <p className="text-xs text-stone-500 mb-6">
+              Drafts, hidden and not-yet-scheduled works are left out of the public site. They are still stored in gallery.json, so anyone browsing the repository can find them.
+          </p>
+          {manageError && <p className="text-red-500 text-sm mb-4">{manageError}</p>}
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-6">
-              {artworks.map(art => (
-                  <div key={art.id} className="group relative border border-stone-200 rounded overflow-hidden">
+              {managedArtworks.map(art => (
+                  <div key={art.id} className={`group relative border border-stone-200 rounded overflow-hidden ${deletingId === art.id ? 'opacity-50 pointer-events-none' : ''}`}>
                       <div className="aspect-square bg-stone-100 relative">
-                          <img src={art.imageUrl} className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" alt={art.title} />
+                          <ArtworkImage artwork={art} thumbnail className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" loading="lazy" />
+                          <StatusBadge artwork={art} className="absolute top-2 left-2" />
                       </div>
                       <div className="p-3 bg-white">
                           <p className="font-medium text-stone-900 truncate">{art.title}</p>
-                          <p className="text-xs text-stone-500">{art.medium}</p>
+                          <p className="text-xs text-stone-500">{art.medium}{art.year ? `, ${art.year}` : ''}</p>
+                          {art.availability && (
+                              <p className={`text-xs mt-1 ${art.availability === 'sold' ? 'text-red-600' : 'text-stone-500'}`}>
+                                  {availabilityLabel(art.availability, uiStrings('en'))}
+                              </p>
+                          )}
+                          {!art.altText && <p className="text-xs mt-1 text-amber-700">No alt text yet</p>}
+                          <div className="flex gap-3 mt-2 text-xs font-medium">
+                              <button
+                                  onClick={() => setEditingArtwork(art)}
+                                  disabled={!canWrite(repoConfig)}
+                                  aria-label={`Edit "${art.title}"`}
+                                  className="text-stone-600 hover:text-stone-900 disabled:opacity-50"
+                              >
+                                  Edit
+                              </button>
+                              <button
+                                  onClick={() => handleDelete(art)}
+                                  disabled={!canWrite(repoConfig) || deletingId !== null}
+                                  aria-label={`Delete "${art.title}"`}
+                                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                              >
+                                  {deletingId === art.id ? 'Deleting...' : 'Delete'}
+                              </button>
+                          </div>
                       </div>
                   </div>
               ))}
           </div>
       </div>
+
+      {/* Edit Artwork Modal */}
+      {editingArtwork && (
+          <ArtworkEditor
+              artwork={editingArtwork}
+              repoConfig={repoConfig}
+              curator={siteSettings.curator}
+              onClose={() => setEditingArtwork(null)}
+              onSaved={() => {
+                  setEditingArtwork(null);
+                  onRefreshData();
+              }}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
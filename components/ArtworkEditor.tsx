@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import { Artwork, ArtworkStatus, Availability, CuratorSettings, DimensionUnit, Locale, LocalizedArtworkText, RepoConfig } from '../types';
+import { updateArtworkInManifest } from '../services/galleryStore';
+import { translateArtworkText } from '../services/metadataProvider';
+import { MetadataError } from '../services/metadataErrors';
+import { SUPPORTED_LOCALES, LOCALE_LABELS, baseText, sourceLocaleOf, uiStrings } from '../services/i18n';
+import { ARTWORK_STATUSES, fromDateTimeLocal, statusOf, toDateTimeLocal } from '../services/artworkStatus';
+import { AVAILABILITIES, CURRENCIES, DEFAULT_CURRENCY, availabilityLabel } from '../services/catalog';
+import { ArtworkImage } from './ArtworkImage';
+import { ARTWORK_STATUS_LABELS } from './StatusBadge';
+
+// Tags are edited as a comma separated string and split on save
+interface TextDraft {
+  title: string;
+  description: string;
+  medium: string;
+  tags: string;
+  altText: string;
+}
+
+const EMPTY_DRAFT: TextDraft = { title: '', description: '', medium: '', tags: '', altText: '' };
+
+const toDraft = (text?: LocalizedArtworkText): TextDraft => text
+  ? { title: text.title, description: text.description, medium: text.medium, tags: text.tags.join(', '), altText: text.altText || '' }
+  : EMPTY_DRAFT;
+
+const fromDraft = (draft: TextDraft): LocalizedArtworkText => ({
+  title: draft.title.trim(),
+  description: draft.description,
+  medium: draft.medium,
+  tags: draft.tags.split(',').map(t => t.trim()).filter(Boolean),
+  altText: draft.altText.trim() || undefined,
+});
+
+// Catalog fields are language independent and edited as strings until saved
+interface CatalogDraft {
+  year: string;
+  height: string;
+  width: string;
+  depth: string;
+  unit: DimensionUnit;
+  availability: Availability | '';
+  priceAmount: string;
+  currency: string;
+  editionNumber: string;
+  editionSize: string;
+}
+
+const toCatalogDraft = (art: Artwork): CatalogDraft => ({
+  year: art.year?.toString() || '',
+  height: art.dimensions?.height.toString() || '',
+  width: art.dimensions?.width.toString() || '',
+  depth: art.dimensions?.depth?.toString() || '',
+  unit: art.dimensions?.unit || 'cm',
+  availability: art.availability || '',
+  priceAmount: art.price?.amount.toString() || '',
+  currency: art.price?.currency || DEFAULT_CURRENCY,
+  editionNumber: art.edition?.number?.toString() || '',
+  editionSize: art.edition?.size.toString() || '',
+});
+
+// Empty strings become undefined; anything else must be a positive number
+const parsePositive = (value: string, field: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const n = Number(value.replace(',', '.'));
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`${field} must be a positive number.`);
+  return n;
+};
+
+const fromCatalogDraft = (draft: CatalogDraft): Pick<Artwork, 'year' | 'dimensions' | 'availability' | 'price' | 'edition'> => {
+  const year = parsePositive(draft.year, 'Year');
+  if (year !== undefined && !Number.isInteger(year)) throw new Error("Year must be a whole number.");
+
+  const height = parsePositive(draft.height, 'Height');
+  const width = parsePositive(draft.width, 'Width');
+  const depth = parsePositive(draft.depth, 'Depth');
+  if ((height === undefined) !== (width === undefined)) throw new Error("Enter both height and width, or neither.");
+
+  const amount = parsePositive(draft.priceAmount, 'Price');
+  const editionSize = parsePositive(draft.editionSize, 'Edition size');
+  const editionNumber = parsePositive(draft.editionNumber, 'Edition number');
+  if (editionNumber !== undefined && (editionSize === undefined || editionNumber > editionSize)) {
+    throw new Error("Edition number must be within the edition size.");
+  }
+
+  return {
+    year,
+    dimensions: height !== undefined && width !== undefined ? { height, width, depth, unit: draft.unit } : undefined,
+    availability: draft.availability || undefined,
+    price: amount !== undefined ? { amount, currency: draft.currency.trim().toUpperCase() || DEFAULT_CURRENCY } : undefined,
+    edition: editionSize !== undefined ? { size: editionSize, number: editionNumber } : undefined,
+  };
+};
+
+interface ArtworkEditorProps {
+  artwork: Artwork;
+  repoConfig: RepoConfig;
+  // Model Gemini translates with, from settings.json
+  curator?: CuratorSettings;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const ArtworkEditor: React.FC<ArtworkEditorProps> = ({ artwork, repoConfig, curator, onClose, onSaved }) => {
+  const [sourceLocale, setSourceLocale] = useState<Locale>(sourceLocaleOf(artwork));
+  const [activeLocale, setActiveLocale] = useState<Locale>(sourceLocaleOf(artwork));
+  const [drafts, setDrafts] = useState<Record<Locale, TextDraft>>(() => {
+    const initial = {} as Record<Locale, TextDraft>;
+    SUPPORTED_LOCALES.forEach(locale => {
+      initial[locale] = locale === sourceLocaleOf(artwork)
+        ? toDraft(baseText(artwork))
+        : toDraft(artwork.translations?.[locale]);
+    });
+    return initial;
+  });
+  const [catalog, setCatalog] = useState<CatalogDraft>(() => toCatalogDraft(artwork));
+  const [status, setStatus] = useState<ArtworkStatus>(statusOf(artwork));
+  const [publishAt, setPublishAt] = useState(toDateTimeLocal(artwork.publishAt));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draft = drafts[activeLocale];
+  const updateDraft = (changes: Partial<TextDraft>) => {
+    setDrafts(prev => ({ ...prev, [activeLocale]: { ...prev[activeLocale], ...changes } }));
+  };
+
+  const handleTranslate = async () => {
+    const targets = SUPPORTED_LOCALES.filter(locale => locale !== sourceLocale);
+    const hasExisting = targets.some(locale => drafts[locale].title);
+    if (hasExisting && !window.confirm("Replace the existing translations with new ones from Gemini?")) return;
+
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translations = await translateArtworkText(fromDraft(drafts[sourceLocale]), sourceLocale, targets, curator);
+      setDrafts(prev => {
+        const next = { ...prev };
+        targets.forEach(locale => {
+          if (translations[locale]) next[locale] = toDraft(translations[locale]);
+        });
+        return next;
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof MetadataError ? err.message : "Failed to translate.");
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const source = fromDraft(drafts[sourceLocale]);
+    if (!source.title) {
+      setActiveLocale(sourceLocale);
+      setError("Title cannot be empty.");
+      return;
+    }
+    const scheduledAt = status === 'scheduled' ? fromDateTimeLocal(publishAt) : undefined;
+    if (status === 'scheduled' && scheduledAt === undefined) {
+      setError("Choose a date and time for the scheduled release.");
+      return;
+    }
+    let catalogFields: ReturnType<typeof fromCatalogDraft>;
+    try {
+      catalogFields = fromCatalogDraft(catalog);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    // Languages left without a title are treated as untranslated
+    const translations: Partial<Record<Locale, LocalizedArtworkText>> = {};
+    SUPPORTED_LOCALES.forEach(locale => {
+      if (locale !== sourceLocale && drafts[locale].title.trim()) {
+        translations[locale] = fromDraft(drafts[locale]);
+      }
+    });
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateArtworkInManifest(artwork.id, {
+        ...source,
+        locale: sourceLocale,
+        translations,
+        ...catalogFields,
+        status,
+        publishAt: scheduledAt,
+      }, repoConfig);
+      onSaved();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save changes");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/80 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-lg shadow-2xl flex flex-col md:flex-row">
+        <div className="md:w-1/3 bg-stone-100 flex items-center justify-center p-4">
+          <ArtworkImage artwork={artwork} thumbnail className="max-h-64 w-auto h-auto object-contain" />
+        </div>
+        <div className="md:w-2/3 p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium text-stone-900">Edit Artwork</h3>
+            <label className="text-xs text-stone-500 flex items-center gap-2">
+              Original language
+              <select
+                value={sourceLocale}
+                onChange={(e) => setSourceLocale(e.target.value as Locale)}
+                className="px-2 py-1 border border-stone-300 rounded bg-white text-stone-700"
+              >
+                {SUPPORTED_LOCALES.map(locale => (
+                  <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between border-b border-stone-200">
+            <div className="flex gap-1">
+              {SUPPORTED_LOCALES.map(locale => (
+                <button
+                  key={locale}
+                  onClick={() => setActiveLocale(locale)}
+                  className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                    locale === activeLocale ? 'border-stone-900 text-stone-900' : 'border-transparent text-stone-500 hover:text-stone-900'
+                  }`}
+                >
+                  {LOCALE_LABELS[locale]}
+                  {locale !== sourceLocale && !drafts[locale].title && <span className="ml-1 text-amber-600">•</span>}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleTranslate}
+              disabled={isTranslating || isSaving || !drafts[sourceLocale].title}
+              className="text-xs font-medium text-stone-600 hover:text-stone-900 disabled:opacity-50"
+            >
+              {isTranslating ? 'Translating...' : '✨ Translate to all site languages'}
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => updateDraft({ title: e.target.value })}
+              className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Medium</label>
+            <input
+              type="text"
+              value={draft.medium}
+              onChange={(e) => updateDraft({ medium: e.target.value })}
+              className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Curatorial Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              rows={5}
+              className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Tags</label>
+            <input
+              type="text"
+              value={draft.tags}
+              onChange={(e) => updateDraft({ tags: e.target.value })}
+              className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+              placeholder="Comma separated"
+            />
+          </div>
+          <div>
+            <label htmlFor="artwork-alt-text" className="block text-sm font-medium text-stone-700 mb-1">Alt Text</label>
+            <textarea
+              id="artwork-alt-text"
+              value={draft.altText}
+              onChange={(e) => updateDraft({ altText: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none text-sm"
+              placeholder="What the picture shows, for visitors using a screen reader"
+            />
+            <p className="text-xs text-stone-500 mt-1">Read out instead of the title. Describe what is visible, plainly; the description above is for interpretation.</p>
+          </div>
+          <div className="pt-2 border-t border-stone-100 space-y-4">
+            <h4 className="text-sm font-medium text-stone-900">Catalog</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-stone-700 mb-1">Year</label>
+                <input
+                  type="number"
+                  value={catalog.year}
+                  onChange={(e) => setCatalog({ ...catalog, year: e.target.value })}
+                  className="w-full px-3 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                  placeholder="2024"
+                />
+              </div>
+              <div className="col-span-2 sm:col-span-3">
+                <label className="block text-xs font-medium text-stone-700 mb-1">Height × Width × Depth</label>
+                <div className="flex gap-2">
+                  {(['height', 'width', 'depth'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="text"
+                      inputMode="decimal"
+                      value={catalog[field]}
+                      onChange={(e) => setCatalog({ ...catalog, [field]: e.target.value })}
+                      className="w-full min-w-0 px-3 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                      placeholder={field === 'depth' ? 'optional' : field}
+                      aria-label={field}
+                    />
+                  ))}
+                  <select
+                    value={catalog.unit}
+                    onChange={(e) => setCatalog({ ...catalog, unit: e.target.value as DimensionUnit })}
+                    className="px-2 py-2 border border-stone-300 rounded bg-white outline-none focus:border-stone-500"
+                    aria-label="Unit"
+                  >
+                    <option value="cm">cm</option>
+                    <option value="in">in</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-stone-700 mb-1">Availability</label>
+                <select
+                  value={catalog.availability}
+                  onChange={(e) => setCatalog({ ...catalog, availability: e.target.value as Availability | '' })}
+                  className="w-full px-2 py-2 border border-stone-300 rounded bg-white outline-none focus:border-stone-500"
+                >
+                  <option value="">Not stated</option>
+                  {AVAILABILITIES.map(option => (
+                    <option key={option} value={option}>{availabilityLabel(option, uiStrings('en'))}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-stone-700 mb-1">Price</label>
+                <div className="flex gap-1">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={catalog.priceAmount}
+                    onChange={(e) => setCatalog({ ...catalog, priceAmount: e.target.value })}
+                    className="w-full min-w-0 px-3 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                  />
+                  <select
+                    value={catalog.currency}
+                    onChange={(e) => setCatalog({ ...catalog, currency: e.target.value })}
+                    className="px-1 py-2 border border-stone-300 rounded bg-white outline-none focus:border-stone-500 text-xs"
+                    aria-label="Currency"
+                  >
+                    {Array.from(new Set([...CURRENCIES, catalog.currency])).map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-stone-700 mb-1">Edition (prints)</label>
+                <div className="flex items-center gap-2 text-sm text-stone-500">
+                  <input
+                    type="number"
+                    value={catalog.editionNumber}
+                    onChange={(e) => setCatalog({ ...catalog, editionNumber: e.target.value })}
+                    className="w-full min-w-0 px-3 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                    placeholder="No."
+                    aria-label="Edition number"
+                  />
+                  of
+                  <input
+                    type="number"
+                    value={catalog.editionSize}
+                    onChange={(e) => setCatalog({ ...catalog, editionSize: e.target.value })}
+                    className="w-full min-w-0 px-3 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                    placeholder="Size"
+                    aria-label="Edition size"
+                  />
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-stone-500">Prices are only shown to visitors while a work is available.</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-2 border-t border-stone-100">
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Visibility</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ArtworkStatus)}
+                className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white"
+              >
+                {ARTWORK_STATUSES.map(option => (
+                  <option key={option} value={option}>{ARTWORK_STATUS_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            {status === 'scheduled' && (
+              <div>
+                <label className="block text-sm font-medium text-stone-700 mb-1">Publish at</label>
+                <input
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+                />
+              </div>
+            )}
+          </div>
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isTranslating}
+              className="flex-1 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
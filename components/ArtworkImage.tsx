@@ -0,0 +1,63 @@
+import React from 'react';
+import { Artwork, ImageFormat } from '../types';
+
+// Preferred first; the browser picks the first <source> type it supports
+const SOURCE_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+interface ArtworkImageProps {
+  artwork: Artwork;
+  // Defaults to the artwork's alt text, or its title for entries written before alt text existed
+  alt?: string;
+  // Rendered width hint for srcset selection, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes?: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+  // Use the small thumbnail rendition (admin grids, pickers)
+  thumbnail?: boolean;
+}
+
+export const ArtworkImage: React.FC<ArtworkImageProps> = ({ 
+  artwork, 
+  alt = artwork.altText || artwork.title, 
+  sizes = '100vw', 
+  className, 
+  loading, 
+  thumbnail 
+}) => {
+  // Reserving the intrinsic size avoids layout shift in the masonry grid
+  const dimensions = artwork.width && artwork.height ? { width: artwork.width, height: artwork.height } : {};
+
+  if (thumbnail && artwork.thumbnailUrl) {
+    return <img src={artwork.thumbnailUrl} alt={alt} className={className} loading={loading} {...dimensions} />;
+  }
+
+  const variants = artwork.variants || [];
+  if (variants.length === 0) {
+    // Entries published before the image pipeline only have the original upload
+    return <img src={artwork.imageUrl} alt={alt} className={className} loading={loading} {...dimensions} />;
+  }
+
+  const srcSetFor = (format: ImageFormat) => variants
+    .filter(v => v.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(v => `${v.url} ${v.width}w`)
+    .join(', ');
+
+  return (
+    <picture>
+      {SOURCE_FORMATS.map(format => {
+        const srcSet = srcSetFor(format);
+        return srcSet ? <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img 
+        src={artwork.imageUrl} 
+        srcSet={srcSetFor('jpeg')} 
+        sizes={sizes} 
+        alt={alt} 
+        className={className} 
+        loading={loading} 
+        {...dimensions} 
+      />
+    </picture>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { Artwork, Collection, RepoConfig } from '../types';
+import { canWrite, deleteCollection, reorderArtworks, saveCollection } from '../services/galleryStore';
+import { collectionArtworks } from '../services/galleryFilters';
+import { SortableList } from './SortableList';
+
+// Collection ids appear in public URLs (#/collection/:id), so they are readable slugs
+const slugify = (title: string): string =>
+  title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/ß/g, 'ss').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'collection';
+
+const uniqueId = (title: string, collections: Collection[]): string => {
+  const base = slugify(title);
+  let id = base;
+  for (let n = 2; collections.some(col => col.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+interface CollectionsEditorProps {
+  artworks: Artwork[];
+  collections: Collection[];
+  repoConfig: RepoConfig;
+  onChanged: () => void;
+}
+
+export const CollectionsEditor: React.FC<CollectionsEditorProps> = ({ artworks, collections, repoConfig, onChanged }) => {
+  // Gallery order
+  const [galleryOrder, setGalleryOrder] = useState<Artwork[]>(artworks);
+  const [isOrderDirty, setIsOrderDirty] = useState(false);
+  const [isSavingOrder, setIsSavingOrder] = useState(false);
+
+  // Collection being edited; `isNew` until its first save
+  const [draft, setDraft] = useState<Collection | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOrderDirty) setGalleryOrder(artworks);
+  }, [artworks]);
+
+  const handleSaveOrder = async () => {
+    setIsSavingOrder(true);
+    setError(null);
+    try {
+      await reorderArtworks(galleryOrder.map(art => art.id), repoConfig);
+      setIsOrderDirty(false);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save gallery order");
+    } finally {
+      setIsSavingOrder(false);
+    }
+  };
+
+  const startNew = () => {
+    setDraft({ id: '', title: '', description: '', artworkIds: [] });
+    setIsNew(true);
+    setError(null);
+  };
+
+  const startEdit = (collection: Collection) => {
+    setDraft(collection);
+    setIsNew(false);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.title.trim()) {
+      setError("Title cannot be empty.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const collection = { ...draft, title: draft.title.trim(), id: isNew ? uniqueId(draft.title, collections) : draft.id };
+      await saveCollection(collection, repoConfig);
+      setDraft(null);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save collection");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    if (!window.confirm(`Delete the collection "${collection.title}"? The artworks themselves stay in the gallery.`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await deleteCollection(collection, repoConfig);
+      if (draft?.id === collection.id) setDraft(null);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to delete collection");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const members = draft ? collectionArtworks(artworks, draft) : [];
+  const nonMembers = draft ? artworks.filter(art => !draft.artworkIds.includes(art.id)) : [];
+
+  return (
+    <div className="max-w-5xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+        <h3 className="text-xl font-medium text-stone-900 mb-2">Gallery Order</h3>
+        <p className="text-stone-500 text-sm mb-6">
+          Drag works into the order visitors see under "Artist's selection", the gallery's default sort.
+        </p>
+        <SortableList
+          artworks={galleryOrder}
+          onChange={(next) => { setGalleryOrder(next); setIsOrderDirty(true); }}
+          disabled={isSavingOrder}
+        />
+        <div className="flex gap-3 mt-4">
+          <button
+            onClick={() => { setGalleryOrder(artworks); setIsOrderDirty(false); }}
+            disabled={!isOrderDirty || isSavingOrder}
+            className="flex-1 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-50 disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSaveOrder}
+            disabled={!isOrderDirty || isSavingOrder || !canWrite(repoConfig)}
+            className="flex-1 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50"
+          >
+            {isSavingOrder ? 'Saving...' : 'Save Order'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-lg shadow-sm border border-stone-200 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-medium text-stone-900">Collections</h3>
+          <button
+            onClick={startNew}
+            disabled={isSaving}
+            className="px-4 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50 text-sm"
+          >
+            New Collection
+          </button>
+        </div>
+
+        {collections.length === 0 && !draft && (
+          <p className="text-stone-500 text-sm">Group works into series such as a theme, a place or a year.</p>
+        )}
+
+        <ul className="divide-y divide-stone-100">
+          {collections.map(collection => (
+            <li key={collection.id} className="flex items-center justify-between py-2 text-sm">
+              <span className={draft?.id === collection.id ? 'font-medium text-stone-900' : 'text-stone-700'}>
+                {collection.title}
+                <span className="text-stone-500 ml-2">{collectionArtworks(artworks, collection).length}</span>
+              </span>
+              <span className="flex gap-3">
+                <button onClick={() => startEdit(collection)} disabled={isSaving} className="text-stone-600 hover:text-stone-900 disabled:opacity-50">Edit</button>
+                <button onClick={() => handleDelete(collection)} disabled={isSaving || !canWrite(repoConfig)} className="text-red-600 hover:text-red-800 disabled:opacity-50">Delete</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {draft && (
+          <div className="space-y-4 pt-4 border-t border-stone-200">
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Title</label>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Description</label>
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={3}
+                className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Cover</label>
+              <select
+                value={draft.coverArtworkId || ''}
+                onChange={(e) => setDraft({ ...draft, coverArtworkId: e.target.value || undefined })}
+                className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white"
+              >
+                <option value="">First work in the collection</option>
+                {members.map(art => (
+                  <option key={art.id} value={art.id}>{art.title}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Works</label>
+              {members.length > 0 && (
+                <SortableList
+                  artworks={members}
+                  onChange={(next) => setDraft({ ...draft, artworkIds: next.map(art => art.id) })}
+                  onRemove={(art) => setDraft({
+                    ...draft,
+                    artworkIds: draft.artworkIds.filter(id => id !== art.id),
+                    coverArtworkId: draft.coverArtworkId === art.id ? undefined : draft.coverArtworkId,
+                  })}
+                  disabled={isSaving}
+                />
+              )}
+              <select
+                value=""
+                onChange={(e) => e.target.value && setDraft({ ...draft, artworkIds: [...draft.artworkIds, e.target.value] })}
+                disabled={isSaving || nonMembers.length === 0}
+                className="w-full mt-2 px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white text-sm"
+              >
+                <option value="">Add a work...</option>
+                {nonMembers.map(art => (
+                  <option key={art.id} value={art.id}>{art.title}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setDraft(null)}
+                disabled={isSaving}
+                className="flex-1 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !canWrite(repoConfig)}
+                className="flex-1 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : isNew ? 'Create Collection' : 'Save Collection'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Artwork, Collection, Locale } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+import { collectionArtworks } from '../services/galleryFilters';
+import { uiStrings } from '../services/i18n';
+
+interface CollectionsIndexProps {
+  collections: Collection[];
+  // Already localized to `locale` by the caller
+  artworks: Artwork[];
+  locale: Locale;
+  onSelectCollection: (id: string) => void;
+}
+
+export const CollectionsIndex: React.FC<CollectionsIndexProps> = ({ collections, artworks, locale, onSelectCollection }) => {
+  const t = uiStrings(locale);
+  // Empty collections are work in progress and stay hidden from visitors
+  const visible = collections
+    .map(collection => ({ collection, members: collectionArtworks(artworks, collection) }))
+    .filter(({ members }) => members.length > 0);
+
+  if (visible.length === 0) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center text-center p-8">
+        <p className="text-stone-500 max-w-md">{t.collectionsEmpty}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-12 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <h2 className="font-serif text-3xl md:text-4xl text-stone-900 mb-10">{t.collections}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
+        {visible.map(({ collection, members }) => {
+          const cover = members.find(art => art.id === collection.coverArtworkId) || members[0];
+          return (
+            <button key={collection.id} type="button" className="group block w-full text-left" onClick={() => onSelectCollection(collection.id)}>
+              <span className="block aspect-[4/3] overflow-hidden bg-stone-200">
+                {/* The cover only illustrates the collection, whose title names the button */}
+                <ArtworkImage
+                  artwork={cover}
+                  alt=""
+                  sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                  className="w-full h-full object-cover motion-safe:transition-transform motion-safe:duration-700 motion-safe:group-hover:scale-105"
+                  loading="lazy"
+                />
+              </span>
+              <span className="block font-serif text-xl text-stone-900 mt-4 group-hover:text-amber-700 group-focus-visible:text-amber-700 transition-colors">{collection.title}</span>
+              <span className="block text-xs text-stone-500 mt-1 uppercase tracking-wider">{t.collectionWorks(members.length)}</span>
+              {collection.description && (
+                <span className="block text-stone-600 text-sm mt-2 line-clamp-3">{collection.description}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
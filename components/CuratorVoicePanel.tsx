@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { CuratorSettings, CuratorVoicePreset, RepoConfig, SiteSettings } from '../types';
+import { canWrite, updateSiteSettings } from '../services/galleryStore';
+import {
+  CURATOR_MODELS,
+  CURATOR_VOICES,
+  DEFAULT_CURATOR_MODEL,
+  DEFAULT_CURATOR_SETTINGS,
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_TAG_COUNT,
+  MAX_TAG_COUNT,
+  PROMPT_PLACEHOLDERS,
+  curatorInstruction,
+} from '../services/curatorVoice';
+
+interface CuratorVoicePanelProps {
+  siteSettings: SiteSettings;
+  repoConfig: RepoConfig;
+  onChanged: () => void;
+}
+
+// Voice, prompt and model Gemini uses for new placards, and the model for translations and search descriptions; stored in settings.json
+export const CuratorVoicePanel: React.FC<CuratorVoicePanelProps> = ({ siteSettings, repoConfig, onChanged }) => {
+  const [draft, setDraft] = useState<CuratorSettings>(siteSettings.curator || DEFAULT_CURATOR_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(siteSettings.curator || DEFAULT_CURATOR_SETTINGS);
+  }, [siteSettings.curator]);
+
+  const handleVoiceChange = (voice: CuratorSettings['voice']) => {
+    // Start a custom voice from the one it replaces rather than from an empty box
+    setDraft({
+      ...draft,
+      voice,
+      systemInstruction: voice === 'custom' ? draft.systemInstruction || curatorInstruction(draft) : draft.systemInstruction,
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      // Values equal to the defaults are left out, so later changes to the defaults still apply
+      const curator: CuratorSettings = {
+        voice: draft.voice,
+        ...(draft.voice === 'custom' && draft.systemInstruction?.trim() ? { systemInstruction: draft.systemInstruction.trim() } : {}),
+        ...(draft.promptTemplate?.trim() && draft.promptTemplate.trim() !== DEFAULT_PROMPT_TEMPLATE ? { promptTemplate: draft.promptTemplate.trim() } : {}),
+        ...(draft.model?.trim() && draft.model.trim() !== DEFAULT_CURATOR_MODEL ? { model: draft.model.trim() } : {}),
+        ...(draft.tagCount && draft.tagCount !== DEFAULT_TAG_COUNT ? { tagCount: draft.tagCount } : {}),
+      };
+      await updateSiteSettings({ ...siteSettings, curator }, repoConfig);
+      setSaved(true);
+      onChanged();
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save the curator voice");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8 bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+      <h3 className="text-xl font-medium text-stone-900 mb-2">Curator Voice</h3>
+      <p className="text-stone-500 text-sm mb-6">
+        How Gemini writes titles, descriptions and tags for new uploads. Stored in <code>settings.json</code>, so every device writes the same way.
+      </p>
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-stone-700 mb-1">Voice</label>
+          <select
+            value={draft.voice}
+            onChange={(e) => handleVoiceChange(e.target.value as CuratorSettings['voice'])}
+            className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 bg-white"
+          >
+            {(Object.keys(CURATOR_VOICES) as CuratorVoicePreset[]).map(voice => (
+              <option key={voice} value={voice}>{CURATOR_VOICES[voice].label}</option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </div>
+        {draft.voice === 'custom' ? (
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Instructions</label>
+            <textarea
+              value={draft.systemInstruction || ''}
+              onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value })}
+              rows={4}
+              className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 text-sm"
+              placeholder="Who the curator is and how they write"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-stone-600 italic bg-stone-50 p-3 rounded">{CURATOR_VOICES[draft.voice].instruction}</p>
+        )}
+        <div>
+          <div className="flex justify-between items-baseline mb-1">
+            <label className="block text-sm font-medium text-stone-700">Prompt</label>
+            {draft.promptTemplate && draft.promptTemplate !== DEFAULT_PROMPT_TEMPLATE && (
+              <button onClick={() => setDraft({ ...draft, promptTemplate: undefined })} className="text-xs text-stone-500 hover:text-stone-900">
+                Reset to default
+              </button>
+            )}
+          </div>
+          <textarea
+            value={draft.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE}
+            onChange={(e) => setDraft({ ...draft, promptTemplate: e.target.value })}
+            rows={4}
+            className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 font-mono text-xs"
+          />
+          <ul className="text-xs text-stone-500 mt-1 space-y-0.5">
+            {Object.entries(PROMPT_PLACEHOLDERS).map(([key, hint]) => (
+              <li key={key}><code>{`{{${key}}}`}</code> {hint}</li>
+            ))}
+          </ul>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-stone-700 mb-1">Model</label>
+            <input
+              type="text"
+              list="curator-models"
+              value={draft.model ?? DEFAULT_CURATOR_MODEL}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500 font-mono text-xs"
+            />
+            <datalist id="curator-models">
+              {CURATOR_MODELS.map(model => <option key={model} value={model} />)}
+            </datalist>
+            <p className="text-xs text-stone-500 mt-1">Also used for translations and the image descriptions behind search by meaning.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Tags per work</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TAG_COUNT}
+              value={draft.tagCount ?? DEFAULT_TAG_COUNT}
+              onChange={(e) => setDraft({ ...draft, tagCount: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+              className="w-full px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
+            />
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !canWrite(repoConfig)}
+          className={`w-full py-2 rounded font-medium text-white transition-colors disabled:opacity-50 ${saved ? 'bg-green-600' : 'bg-stone-900 hover:bg-stone-800'}`}
+        >
+          {isSaving ? 'Saving...' : saved ? 'Saved!' : 'Save Curator Voice'}
+        </button>
+        {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Artwork, RepoConfig } from '../types';
+import { computePerceptualHash, fetchImageBlob, isNearDuplicate } from '../services/imageService';
+import { canWrite, deleteArtwork, mergeArtworks, updateArtworksInManifest } from '../services/galleryStore';
+import { ArtworkImage } from './ArtworkImage';
+
+// Groups artworks whose hashes are near-duplicates of each other (transitively)
+const groupDuplicates = (artworks: Artwork[], hashes: Record<string, string>): Artwork[][] => {
+  const hashed = artworks.filter(art => hashes[art.id]);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (isNearDuplicate(hashes[hashed[i].id], hashes[hashed[j].id])) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, Artwork[]>();
+  hashed.forEach((art, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), art]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+interface DuplicateReportProps {
+  artworks: Artwork[];
+  repoConfig: RepoConfig;
+  onChanged: () => void;
+}
+
+export const DuplicateReport: React.FC<DuplicateReportProps> = ({ artworks, repoConfig, onChanged }) => {
+  // Hashes computed during this scan for entries that did not have one stored
+  const [computedHashes, setComputedHashes] = useState<Record<string, string>>({});
+  const [hasScanned, setHasScanned] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState('');
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const [isSavingHashes, setIsSavingHashes] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hashes: Record<string, string> = { ...computedHashes };
+  artworks.forEach(art => {
+    if (art.perceptualHash) hashes[art.id] = art.perceptualHash;
+  });
+  const unsavedHashes = Object.keys(computedHashes).filter(id => {
+    const art = artworks.find(a => a.id === id);
+    return art && !art.perceptualHash;
+  });
+  const groups = hasScanned ? groupDuplicates(artworks, hashes) : [];
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setError(null);
+    const missing = artworks.filter(art => !art.perceptualHash && !computedHashes[art.id]);
+    let failures = 0;
+
+    for (const [idx, art] of missing.entries()) {
+      setScanProgress(`Fingerprinting ${idx + 1} of ${missing.length}...`);
+      try {
+        const blob = await fetchImageBlob(art.thumbnailUrl || art.imageUrl);
+        const hash = await computePerceptualHash(blob);
+        setComputedHashes(prev => ({ ...prev, [art.id]: hash }));
+      } catch (err) {
+        console.warn(err);
+        failures++;
+      }
+    }
+
+    if (failures > 0) setError(`${failures} images could not be loaded and were skipped.`);
+    setScanProgress('');
+    setHasScanned(true);
+    setIsScanning(false);
+  };
+
+  const handleSaveHashes = async () => {
+    setIsSavingHashes(true);
+    setError(null);
+    try {
+      const changes: Record<string, Partial<Artwork>> = {};
+      unsavedHashes.forEach(id => { changes[id] = { perceptualHash: computedHashes[id] }; });
+      await updateArtworksInManifest(changes, `Store fingerprints for ${unsavedHashes.length} artworks`, repoConfig);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save fingerprints");
+    } finally {
+      setIsSavingHashes(false);
+    }
+  };
+
+  // Default keeper is the earliest upload in the group
+  const keeperFor = (group: Artwork[]) => {
+    const chosen = keepers[group[0].id];
+    return chosen && group.some(art => art.id === chosen)
+      ? chosen
+      : [...group].sort((a, b) => a.createdAt - b.createdAt)[0].id;
+  };
+
+  const handleMerge = async (group: Artwork[]) => {
+    const keepId = keeperFor(group);
+    const keeper = group.find(art => art.id === keepId)!;
+    if (!window.confirm(`Keep "${keeper.title}" and remove ${group.length - 1} other copies? Their tags are merged into the kept entry.`)) return;
+
+    setBusyGroup(group[0].id);
+    setError(null);
+    try {
+      await mergeArtworks(keepId, group.map(art => art.id), repoConfig);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to merge duplicates");
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const handleRemove = async (group: Artwork[], art: Artwork) => {
+    if (!window.confirm(`Delete "${art.title}" from the gallery? This removes the image from the repository.`)) return;
+
+    setBusyGroup(group[0].id);
+    setError(null);
+    try {
+      await deleteArtwork(art.id, repoConfig);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to delete artwork");
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+        <h3 className="text-xl font-medium text-stone-900 mb-2">Find Duplicates</h3>
+        <p className="text-stone-500 text-sm mb-6">
+          Compares a visual fingerprint of every artwork, so re-uploads of the same painting are found even if the files differ.
+          Entries without a stored fingerprint are downloaded and fingerprinted during the scan.
+        </p>
+        <div className="flex flex-wrap gap-3 items-center">
+          <button
+            onClick={handleScan}
+            disabled={isScanning || artworks.length === 0}
+            className="px-6 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50 transition-colors"
+          >
+            {isScanning ? scanProgress || 'Scanning...' : hasScanned ? 'Scan Again' : 'Scan Collection'}
+          </button>
+          {unsavedHashes.length > 0 && !isScanning && (
+            <button
+              onClick={handleSaveHashes}
+              disabled={isSavingHashes || !canWrite(repoConfig)}
+              className="px-4 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-50 disabled:opacity-50 text-sm"
+              title="Stores fingerprints in gallery.json so new uploads are checked against these works"
+            >
+              {isSavingHashes ? 'Saving...' : `Save ${unsavedHashes.length} fingerprints to gallery`}
+            </button>
+          )}
+        </div>
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        {hasScanned && !isScanning && groups.length === 0 && (
+          <p className="text-green-700 text-sm mt-4">No duplicates found.</p>
+        )}
+      </div>
+
+      {groups.map(group => {
+        const keepId = keeperFor(group);
+        const isBusy = busyGroup === group[0].id;
+        return (
+          <div key={group[0].id} className={`bg-white p-6 rounded-lg shadow-sm border border-stone-200 ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+            <div className="flex justify-between items-center mb-4">
+              <p className="text-sm font-medium text-stone-900">{group.length} copies</p>
+              <button
+                onClick={() => handleMerge(group)}
+                disabled={!canWrite(repoConfig) || busyGroup !== null}
+                className="px-4 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50 text-sm"
+              >
+                {isBusy ? 'Working...' : 'Merge into selected'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {group.map(art => (
+                <div key={art.id} className={`border rounded overflow-hidden ${art.id === keepId ? 'border-stone-900 ring-1 ring-stone-900' : 'border-stone-200'}`}>
+                  <div className="aspect-square bg-stone-100">
+                    <ArtworkImage artwork={art} thumbnail className="w-full h-full object-cover" loading="lazy" />
+                  </div>
+                  <div className="p-3 space-y-2">
+                    <p className="text-sm font-medium text-stone-900 truncate">{art.title}</p>
+                    <p className="text-xs text-stone-500">{new Date(art.createdAt).toLocaleDateString()}</p>
+                    <div className="flex justify-between items-center text-xs">
+                      <label className="flex items-center gap-1 cursor-pointer text-stone-700">
+                        <input
+                          type="radio"
+                          name={`keep-${group[0].id}`}
+                          checked={art.id === keepId}
+                          onChange={() => setKeepers(prev => ({ ...prev, [group[0].id]: art.id }))}
+                          className="accent-stone-900"
+                        />
+                        Keep
+                      </label>
+                      <button
+                        onClick={() => handleRemove(group, art)}
+                        disabled={!canWrite(repoConfig) || busyGroup !== null}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,12 +1,106 @@
-import React, { useState } from 'react';
-import { Artwork } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Artwork, Collection, EmbeddingIndex, GalleryFilters, GallerySort, Inquiry, Locale } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+import { Lightbox } from './Lightbox';
+import { InquiryResult } from '../services/inquiryService';
+import { collectionArtworks, filterArtworks, orderByRanking, DEFAULT_SORT, SORT_OPTIONS } from '../services/galleryFilters';
+import { isIndexUsable, rankBySimilarity, similarArtworks } from '../services/semanticSearch';
+import { uiStrings } from '../services/i18n';
 
 interface GalleryProps {
+  // Already localized to `locale` by the caller
   artworks: Artwork[];
+  collections: Collection[];
+  // Enables "More like this" once loaded, and search by meaning when `meaningSearchEnabled`
+  embeddingIndex: EmbeddingIndex | null;
+  // The artist's opt-in from settings.json; each query is an API call on their key
+  meaningSearchEnabled?: boolean;
+  locale: Locale;
+  selectedArtworkId?: string;
+  filters: GalleryFilters;
+  onSelectArtwork: (id: string) => void;
+  // Moves the open lightbox to another artwork without adding a history entry
+  onNavigateArtwork: (id: string) => void;
+  onCloseArtwork: () => void;
+  // `replace` is used while typing so each keystroke does not add a history entry
+  onFiltersChange: (filters: GalleryFilters, options?: { replace?: boolean }) => void;
+  onShowCollections: () => void;
+  // Omitted when the artist has not set up an inquiry channel
+  onSubmitInquiry?: (inquiry: Inquiry) => Promise<InquiryResult>;
 }
 
-export const Gallery: React.FC<GalleryProps> = ({ artworks }) => {
-  const [selectedImage, setSelectedImage] = useState<Artwork | null>(null);
+export const Gallery: React.FC<GalleryProps> = ({ 
+  artworks, 
+  collections,
+  embeddingIndex,
+  meaningSearchEnabled,
+  locale,
+  selectedArtworkId, 
+  filters, 
+  onSelectArtwork, 
+  onNavigateArtwork,
+  onCloseArtwork, 
+  onFiltersChange,
+  onShowCollections,
+  onSubmitInquiry
+}) => {
+  // The lightbox is driven by the route so /artwork/:id links open it directly
+  const selectedImage = selectedArtworkId ? artworks.find(art => art.id === selectedArtworkId) || null : null;
+  const hasIndex = isIndexUsable(embeddingIndex);
+  const canSearchByMeaning = Boolean(meaningSearchEnabled) && hasIndex;
+  const semanticQuery = filters.semantic && canSearchByMeaning ? (filters.query || '').trim() : '';
+  const [rankedIds, setRankedIds] = useState<string[] | null>(null);
+  const [isRanking, setIsRanking] = useState(false);
+  const [rankingFailed, setRankingFailed] = useState(false);
+
+  useEffect(() => {
+    setRankingFailed(false);
+    if (!semanticQuery) {
+      setRankedIds(null);
+      return;
+    }
+    const controller = new AbortController();
+    // Waits for a pause in typing, since every query is an API call
+    const timer = setTimeout(() => {
+      setIsRanking(true);
+      rankBySimilarity(semanticQuery, embeddingIndex!, controller.signal)
+        .then(ranked => !controller.signal.aborted && setRankedIds(ranked.map(item => item.id)))
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.warn("Search by meaning failed", err);
+          setRankingFailed(true);
+        })
+        .finally(() => !controller.signal.aborted && setIsRanking(false));
+    }, 500);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [semanticQuery, embeddingIndex]);
+
+  // Ranked results ignore the sort order; until the first ranking arrives nothing is filtered out.
+  // If the query cannot be embedded, the words are matched as usual.
+  const isRanked = Boolean(semanticQuery) && !rankingFailed;
+  const visibleArtworks = isRanked
+    ? (rankedIds
+        ? orderByRanking(filterArtworks(artworks, { ...filters, query: undefined }, collections), rankedIds)
+        : filterArtworks(artworks, { ...filters, query: undefined, sort: undefined }, collections))
+    : filterArtworks(artworks, filters, collections);
+  const similar = selectedImage && hasIndex ? similarArtworks(selectedImage.id, artworks, embeddingIndex, 6) : [];
+  const isFiltered = Boolean(filters.query || filters.tag);
+  const activeCollection = filters.collection ? collections.find(col => col.id === filters.collection) : undefined;
+  const isMissingCollection = Boolean(filters.collection) && !activeCollection;
+  const totalCount = activeCollection ? collectionArtworks(artworks, activeCollection).length : isMissingCollection ? 0 : artworks.length;
+  const t = uiStrings(locale);
+  const sortLabels: Record<GallerySort, string> = {
+    curated: t.sortCurated,
+    newest: t.sortNewest,
+    oldest: t.sortOldest,
+    title: t.sortTitle,
+    medium: t.sortMedium,
+  };
+
+  const selectTag = (tag: string) => onFiltersChange({ ...filters, tag });
 
   if (artworks.length === 0) {
     return (
@@ -14,86 +108,160 @@ export const Gallery: React.FC<GalleryProps> = ({ artworks }) => {
         <div className="w-16 h-16 border-2 border-stone-300 rounded-full mb-6 flex items-center justify-center">
           <span className="text-2xl">🖼️</span>
         </div>
-        <h3 className="text-xl font-serif text-stone-900 mb-2">No artwork displayed yet</h3>
-        <p className="text-stone-500 max-w-md">The artist is currently curating their collection. Please check back soon or log in to the admin panel to add pieces.</p>
+        <h3 className="text-xl font-serif text-stone-900 mb-2">{t.emptyTitle}</h3>
+        <p className="text-stone-500 max-w-md">{t.emptyBody}</p>
       </div>
     );
   }
 
   return (
     <div className="py-12 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      {filters.collection && (
+        <div className="mb-10">
+          <button
+            onClick={onShowCollections}
+            className="text-xs uppercase tracking-widest text-stone-500 hover:text-stone-900 transition-colors"
+          >
+            ← {t.allCollections}
+          </button>
+          {activeCollection ? (
+            <>
+              <h2 className="font-serif text-3xl md:text-4xl text-stone-900 mt-4">{activeCollection.title}</h2>
+              {activeCollection.description && (
+                <p className="text-stone-700 leading-relaxed font-light text-lg mt-4 max-w-3xl">{activeCollection.description}</p>
+              )}
+            </>
+          ) : (
+            <p className="text-stone-500 mt-4">{t.collectionNotFound}</p>
+          )}
+        </div>
+      )}
+
+      {/* Search & Sort */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4 mb-10">
+        <div className="relative flex-grow">
+          <svg aria-hidden="true" className="w-4 h-4 text-stone-500 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 115 11a6 6 0 0112 0z" /></svg>
+          <input
+            type="search"
+            value={filters.query || ''}
+            onChange={(e) => onFiltersChange({ ...filters, query: e.target.value || undefined }, { replace: true })}
+            className="w-full pl-10 pr-4 py-2 bg-white border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none"
+            placeholder={filters.semantic && canSearchByMeaning ? t.searchByMeaningHint : t.searchPlaceholder}
+            aria-label={t.searchLabel}
+          />
+        </div>
+        {canSearchByMeaning && (
+          <button
+            onClick={() => onFiltersChange({ ...filters, semantic: !filters.semantic || undefined }, { replace: true })}
+            aria-pressed={Boolean(filters.semantic)}
+            title={t.searchByMeaningHint}
+            className={`px-4 py-2 border rounded text-sm whitespace-nowrap transition-colors ${
+              filters.semantic ? 'bg-stone-900 border-stone-900 text-white' : 'bg-white border-stone-300 text-stone-600 hover:border-stone-500'
+            }`}
+          >
+            ✨ {t.searchByMeaning}
+          </button>
+        )}
+        <select
+          value={filters.sort || DEFAULT_SORT}
+          onChange={(e) => onFiltersChange({ ...filters, sort: e.target.value as GallerySort }, { replace: true })}
+          disabled={isRanked}
+          className="px-4 py-2 bg-white border border-stone-300 rounded outline-none focus:border-stone-500 text-sm disabled:opacity-50"
+          aria-label={t.sortLabel}
+        >
+          {SORT_OPTIONS.map(sort => (
+            <option key={sort} value={sort}>{sortLabels[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      {isFiltered && (
+        <div className="flex flex-wrap items-center gap-4 mb-8">
+          {filters.tag && (
+            <span className="flex items-center gap-2 px-3 py-1 bg-stone-900 text-white text-sm rounded-full">
+              #{filters.tag}
+              <button onClick={() => onFiltersChange({ ...filters, tag: undefined })} className="hover:text-stone-300" aria-label={`Remove tag filter ${filters.tag}`}>×</button>
+            </span>
+          )}
+          <span className="text-sm text-stone-500" aria-live="polite">
+            {isRanking ? t.searching : t.worksCount(visibleArtworks.length, totalCount)}
+          </span>
+          <button
+            onClick={() => onFiltersChange({ sort: filters.sort, collection: filters.collection })}
+            className="text-sm text-stone-500 hover:text-stone-900 underline underline-offset-4"
+          >
+            {t.showAll}
+          </button>
+        </div>
+      )}
+
+      {rankingFailed && semanticQuery && (
+        <p className="text-sm text-stone-500 mb-8">{t.semanticSearchFailed}</p>
+      )}
+
+      {/* A missing collection already says so above */}
+      {visibleArtworks.length === 0 && !isMissingCollection && (
+        <p className="text-center text-stone-500 py-16">{t.noMatches}</p>
+      )}
+
       {/* Masonry Layout */}
       <div className="columns-1 md:columns-2 lg:columns-3 gap-8 space-y-8">
-        {artworks.map((art) => (
-          <div 
-            key={art.id} 
-            className="break-inside-avoid group cursor-pointer mb-8"
-            onClick={() => setSelectedImage(art)}
-          >
-            <div className="relative overflow-hidden bg-stone-200">
-              <img 
-                src={art.imageUrl} 
-                alt={art.title} 
-                className="w-full h-auto object-cover transition-transform duration-700 group-hover:scale-105"
-                loading="lazy"
-              />
-              <div className="absolute inset-0 bg-stone-900/0 group-hover:bg-stone-900/20 transition-colors duration-500" />
-            </div>
-            
-            <div className="mt-4">
-              <h3 className="font-serif text-lg text-stone-900 leading-tight group-hover:text-amber-700 transition-colors">
+        {visibleArtworks.map((art) => (
+          <div key={art.id} className="break-inside-avoid mb-8">
+            {/* A real button, so the lightbox can hand focus back to the card it was opened from.
+                Tags stay outside it, since buttons cannot be nested. */}
+            <button
+              type="button"
+              onClick={() => onSelectArtwork(art.id)}
+              className="group block w-full text-left"
+            >
+              <span className="block relative overflow-hidden bg-stone-200">
+                <ArtworkImage 
+                  artwork={art} 
+                  sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                  className="w-full h-auto object-cover motion-safe:transition-transform motion-safe:duration-700 motion-safe:group-hover:scale-105"
+                  loading="lazy"
+                />
+                <span className="absolute inset-0 bg-stone-900/0 group-hover:bg-stone-900/20 group-focus-visible:bg-stone-900/20 transition-colors duration-500" />
+              </span>
+              <span className="block mt-4 font-serif text-lg text-stone-900 leading-tight group-hover:text-amber-700 group-focus-visible:text-amber-700 transition-colors">
                 {art.title}
-              </h3>
-              <p className="text-xs text-stone-500 mt-1 uppercase tracking-wider">{art.medium}</p>
-            </div>
+                {art.availability === 'sold' && (
+                  // The red dot is the customary gallery mark for a sold work
+                  <span className="inline-block w-2 h-2 ml-2 mb-0.5 rounded-full bg-red-600 align-middle" title={t.sold} role="img" aria-label={t.sold} />
+                )}
+              </span>
+              <span className="block text-xs text-stone-500 mt-1 uppercase tracking-wider">{art.medium}</span>
+            </button>
+            {art.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {art.tags.slice(0, 3).map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => selectTag(tag)}
+                    className="text-xs text-stone-600 hover:text-stone-900 transition-colors"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         ))}
       </div>
 
-      {/* Lightbox Modal */}
       {selectedImage && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-stone-900/95 backdrop-blur-sm animate-fade-in">
-          <button 
-            onClick={() => setSelectedImage(null)}
-            className="absolute top-6 right-6 text-stone-400 hover:text-white transition-colors"
-          >
-            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" /></svg>
-          </button>
-          
-          <div className="bg-white max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col md:flex-row shadow-2xl">
-            <div className="md:w-2/3 bg-stone-100 flex items-center justify-center p-2">
-              <img 
-                src={selectedImage.imageUrl} 
-                alt={selectedImage.title} 
-                className="max-w-full max-h-[85vh] object-contain"
-              />
-            </div>
-            <div className="md:w-1/3 p-8 md:p-12 overflow-y-auto bg-stone-50 flex flex-col justify-center">
-              <div className="space-y-6">
-                <div>
-                  <h2 className="font-serif text-3xl md:text-4xl text-stone-900 mb-2">{selectedImage.title}</h2>
-                  <p className="text-stone-500 uppercase tracking-widest text-sm font-medium border-b border-stone-200 pb-4 inline-block">
-                    {selectedImage.medium}
-                  </p>
-                </div>
-                
-                <p className="text-stone-700 leading-relaxed font-light text-lg">
-                  {selectedImage.description}
-                </p>
-                
-                <div className="pt-4">
-                   <div className="flex flex-wrap gap-2">
-                    {selectedImage.tags.map(tag => (
-                      <span key={tag} className="px-3 py-1 bg-stone-200 text-stone-600 text-xs rounded-full">
-                        #{tag}
-                      </span>
-                    ))}
-                   </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
+        <Lightbox
+          artwork={selectedImage}
+          sequence={visibleArtworks}
+          similar={similar}
+          locale={locale}
+          onNavigate={onNavigateArtwork}
+          onSelectSimilar={onSelectArtwork}
+          onClose={onCloseArtwork}
+          onSelectTag={selectTag}
+          onSubmitInquiry={onSubmitInquiry}
+        />
       )}
     </div>
   );
@@ -1,49 +1,79 @@
 import React from 'react';
-import { ViewMode } from '../types';
+import { Locale, ViewMode } from '../types';
+import { SUPPORTED_LOCALES, LOCALE_LABELS, uiStrings } from '../services/i18n';
+
+const PUBLIC_NAV: { mode: ViewMode; label: 'home' | 'gallery' | 'collections' | 'about' }[] = [
+  { mode: ViewMode.HOME, label: 'home' },
+  { mode: ViewMode.GALLERY, label: 'gallery' },
+  { mode: ViewMode.COLLECTIONS, label: 'collections' },
+  { mode: ViewMode.ABOUT, label: 'about' },
+];
 
 interface HeaderProps {
   viewMode: ViewMode;
   setViewMode: (mode: ViewMode) => void;
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ viewMode, setViewMode }) => {
+export const Header: React.FC<HeaderProps> = ({ viewMode, setViewMode, locale, onLocaleChange }) => {
+  const t = uiStrings(locale);
+
   return (
     <header className="sticky top-0 z-50 bg-stone-50/90 backdrop-blur-md border-b border-stone-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-20">
-          <div 
-            className="flex-shrink-0 cursor-pointer flex flex-col" 
-            onClick={() => setViewMode(ViewMode.GALLERY)}
-          >
+          <div className="flex-shrink-0 flex flex-col">
             <h1 className="font-serif text-2xl font-bold tracking-tight text-stone-900">
-              ALEXANDRA <span className="text-stone-500 font-normal">STUDIOS</span>
+              <button type="button" onClick={() => setViewMode(ViewMode.HOME)} className="text-left">
+                ALEXANDRA <span className="text-stone-500 font-normal">STUDIOS</span>
+              </button>
             </h1>
-            <span className="text-xs uppercase tracking-widest text-stone-400 mt-1">
-              Fine Art & Photography
+            <span className="text-xs uppercase tracking-widest text-stone-500 mt-1">
+              {t.tagline}
             </span>
           </div>
           
-          <nav className="flex space-x-8">
-            <button
-              onClick={() => setViewMode(ViewMode.GALLERY)}
-              className={`text-sm uppercase tracking-wide font-medium transition-colors ${
-                viewMode === ViewMode.GALLERY 
-                  ? 'text-stone-900 border-b-2 border-stone-900' 
-                  : 'text-stone-500 hover:text-stone-900'
-              }`}
-            >
-              Gallery
-            </button>
+          <nav className="flex items-center space-x-6 md:space-x-8">
+            {PUBLIC_NAV.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                aria-current={viewMode === mode ? 'page' : undefined}
+                className={`text-sm uppercase tracking-wide font-medium transition-colors ${
+                  viewMode === mode 
+                    ? 'text-stone-900 border-b-2 border-stone-900' 
+                    : 'text-stone-500 hover:text-stone-900'
+                }`}
+              >
+                {t[label]}
+              </button>
+            ))}
             <button
-              onClick={() => setViewMode(viewMode === ViewMode.ADMIN ? ViewMode.GALLERY : ViewMode.LOGIN)}
+              onClick={() => setViewMode(viewMode === ViewMode.ADMIN ? ViewMode.HOME : ViewMode.LOGIN)}
               className={`text-sm uppercase tracking-wide font-medium transition-colors ${
                 viewMode === ViewMode.ADMIN || viewMode === ViewMode.LOGIN
                   ? 'text-stone-900 border-b-2 border-stone-900' 
                   : 'text-stone-500 hover:text-stone-900'
               }`}
             >
-              {viewMode === ViewMode.ADMIN ? 'Admin Panel' : 'Artist Login'}
+              {viewMode === ViewMode.ADMIN ? t.adminPanel : t.artistLogin}
             </button>
+            <div className="flex items-center gap-1 text-xs uppercase tracking-wide" role="group" aria-label={t.language}>
+              {SUPPORTED_LOCALES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => onLocaleChange(option)}
+                  aria-pressed={option === locale}
+                  title={LOCALE_LABELS[option]}
+                  className={`px-1.5 py-0.5 rounded transition-colors ${
+                    option === locale ? 'bg-stone-900 text-white' : 'text-stone-500 hover:text-stone-900'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
           </nav>
         </div>
       </div>
@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GalleryManifest, HistoryCommit, Profile, RepoConfig } from '../types';
+import { fetchManifestAtCommit, fetchProfileAtCommit } from '../services/githubService';
+import {
+  ArtworkChangeKind,
+  diffManifests,
+  diffProfiles,
+  FieldChange,
+  HistoryCursor,
+  listGalleryHistory,
+  ManifestDiff,
+  restoreArtwork,
+  restoreManifest,
+  restoreProfile,
+} from '../services/historyService';
+
+interface Version {
+  manifest: GalleryManifest;
+  profile: Profile | null;
+}
+
+const EMPTY_VERSION: Version = { manifest: { artworks: [], collections: [] }, profile: null };
+
+const CHANGE_STYLES: Record<ArtworkChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const FieldChanges: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <dl className="mt-2 text-xs space-y-1">
+    {changes.map(change => (
+      <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+        <dt className="font-medium text-stone-600">{change.field}</dt>
+        <dd className="font-mono break-all">
+          <span className="text-red-700 line-through">{formatValue(change.before)}</span>
+          {' → '}
+          <span className="text-green-700">{formatValue(change.after)}</span>
+        </dd>
+      </div>
+    ))}
+  </dl>
+);
+
+interface HistoryPanelProps {
+  repoConfig: RepoConfig;
+  onRestored: () => void;
+}
+
+// Commits that changed gallery.json or profile.json, a per-artwork diff between any two of
+// them, and restores of a whole version or a single entry
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ repoConfig, onRestored }) => {
+  const [commits, setCommits] = useState<HistoryCommit[]>([]);
+  // Where the next "Load older changes" continues; null once the whole history is listed
+  const [cursor, setCursor] = useState<HistoryCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Compare `baseSha` (before) with `targetSha` (after); an empty base means "nothing yet"
+  const [targetSha, setTargetSha] = useState<string | null>(null);
+  const [baseSha, setBaseSha] = useState('');
+  const [diff, setDiff] = useState<ManifestDiff | null>(null);
+  const [profileChanges, setProfileChanges] = useState<FieldChange[]>([]);
+  const [isDiffing, setIsDiffing] = useState(false);
+
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [restoreMessage, setRestoreMessage] = useState('');
+
+  // Versions never change once committed, so each is fetched at most once
+  const versions = useRef(new Map<string, Promise<Version>>());
+  const loadVersion = (sha: string): Promise<Version> => {
+    if (!sha) return Promise.resolve(EMPTY_VERSION);
+    let version = versions.current.get(sha);
+    if (!version) {
+      version = Promise.all([fetchManifestAtCommit(sha, repoConfig), fetchProfileAtCommit(sha, repoConfig)])
+        .then(([manifest, profile]) => ({ manifest, profile }));
+      version.catch(() => versions.current.delete(sha));
+      versions.current.set(sha, version);
+    }
+    return version;
+  };
+
+  // Without a cursor the list starts over from the newest commit
+  const loadCommits = async (from?: HistoryCursor) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const batch = await listGalleryHistory(repoConfig, from);
+      setCommits(prev => {
+        const kept = from ? prev : [];
+        const known = new Set(kept.map(c => c.sha));
+        return [...kept, ...batch.commits.filter(c => !known.has(c.sha))];
+      });
+      setCursor(batch.cursor);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    versions.current.clear();
+    setCommits([]);
+    setTargetSha(null);
+    loadCommits();
+  }, [repoConfig.owner, repoConfig.repo, repoConfig.branch]);
+
+  useEffect(() => {
+    if (!targetSha) return;
+    let cancelled = false;
+    setIsDiffing(true);
+    setError(null);
+    Promise.all([loadVersion(baseSha), loadVersion(targetSha)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        setDiff(diffManifests(before.manifest, after.manifest));
+        setProfileChanges(diffProfiles(before.profile, after.profile));
+      })
+      .catch((err: any) => {
+        console.error(err);
+        if (!cancelled) setError(err.message || "Failed to compare versions");
+      })
+      .finally(() => !cancelled && setIsDiffing(false));
+    return () => { cancelled = true; };
+  }, [baseSha, targetSha]);
+
+  // Compares a commit with its parent, i.e. shows what it changed
+  const selectCommit = (sha: string) => {
+    setTargetSha(sha);
+    setBaseSha(commits.find(c => c.sha === sha)?.parentSha || '');
+    setRestoreMessage('');
+  };
+
+  const runRestore = async (key: string, confirmText: string, restore: () => Promise<unknown>, done: string) => {
+    if (!window.confirm(confirmText)) return;
+    setBusyKey(key);
+    setError(null);
+    setRestoreMessage('');
+    try {
+      await restore();
+      setRestoreMessage(done);
+      onRestored();
+      await loadCommits();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Restore failed");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const commitLabel = (commit: HistoryCommit) => `${formatDate(commit.date)} — ${commit.message.split('\n')[0]}`;
+  const base = commits.find(c => c.sha === baseSha);
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-stone-200">
+        <h3 className="text-xl font-medium text-stone-900 mb-2">History</h3>
+        <p className="text-stone-500 text-sm mb-4">
+          Every change to the gallery or profile is a commit. Pick one to see what it changed.
+        </p>
+
+        <ul className="divide-y divide-stone-100">
+          {commits.map(commit => (
+            <li key={commit.sha} className={`py-3 ${commit.sha === targetSha ? 'bg-stone-50 -mx-2 px-2 rounded' : ''}`}>
+              <button onClick={() => selectCommit(commit.sha)} className="text-left w-full">
+                <p className="text-sm text-stone-900">{commit.message.split('\n')[0]}</p>
+                <p className="text-xs text-stone-500">
+                  {formatDate(commit.date)} · {commit.author} · <span className="font-mono">{commit.sha.slice(0, 7)}</span> · {commit.files.join(', ')}
+                </p>
+              </button>
+              <div className="flex gap-3 mt-1 text-xs font-medium">
+                {commit.files.includes('gallery.json') && (
+                  <button
+                    onClick={() => runRestore(
+                      `gallery-${commit.sha}`,
+                      `Restore the whole gallery to how it was after "${commit.message.split('\n')[0]}"? This adds a new commit; nothing is lost.`,
+                      () => restoreManifest(commit.sha, repoConfig),
+                      'Gallery restored.'
+                    )}
+                    disabled={busyKey !== null}
+                    className="text-stone-700 hover:text-stone-900 hover:underline disabled:opacity-50"
+                  >
+                    {busyKey === `gallery-${commit.sha}` ? 'Restoring...' : 'Restore gallery'}
+                  </button>
+                )}
+                {commit.files.includes('profile.json') && (
+                  <button
+                    onClick={() => runRestore(
+                      `profile-${commit.sha}`,
+                      `Restore the artist profile to how it was after "${commit.message.split('\n')[0]}"?`,
+                      () => restoreProfile(commit.sha, repoConfig),
+                      'Profile restored.'
+                    )}
+                    disabled={busyKey !== null}
+                    className="text-stone-700 hover:text-stone-900 hover:underline disabled:opacity-50"
+                  >
+                    {busyKey === `profile-${commit.sha}` ? 'Restoring...' : 'Restore profile'}
+                  </button>
+                )}
+                <a href={commit.url} target="_blank" rel="noopener noreferrer" className="text-stone-500 hover:text-stone-700">
+                  GitHub ↗
+                </a>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {isLoading && <p className="text-sm text-stone-500 mt-4 animate-pulse">Loading history...</p>}
+        {!isLoading && commits.length === 0 && !error && <p className="text-sm text-stone-500 mt-4">No changes recorded yet.</p>}
+        {cursor && !isLoading && (
+          <button onClick={() => loadCommits(cursor)} className="mt-4 text-sm font-medium text-stone-700 hover:text-stone-900">
+            Load older changes
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-stone-200 self-start">
+        {!targetSha ? (
+          <p className="text-sm text-stone-500">Select a change to compare versions.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-xs font-medium text-stone-500 mb-1">Before</label>
+                <select value={baseSha} onChange={(e) => setBaseSha(e.target.value)} className="w-full px-2 py-1 border border-stone-300 rounded text-sm bg-white">
+                  <option value="">(empty gallery)</option>
+                  {baseSha && !base && <option value={baseSha}>Version before this change ({baseSha.slice(0, 7)})</option>}
+                  {commits.map(commit => <option key={commit.sha} value={commit.sha}>{commitLabel(commit)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-stone-500 mb-1">After</label>
+                <select value={targetSha} onChange={(e) => setTargetSha(e.target.value)} className="w-full px-2 py-1 border border-stone-300 rounded text-sm bg-white">
+                  {commits.map(commit => <option key={commit.sha} value={commit.sha}>{commitLabel(commit)}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {restoreMessage && <p className="text-sm text-green-700 mb-4">{restoreMessage}</p>}
+
+            {isDiffing || !diff ? (
+              <p className="text-sm text-stone-500 animate-pulse">Comparing...</p>
+            ) : (
+              <div className="space-y-4">
+                {diff.artworks.length === 0 && !diff.orderChanged && !diff.collectionsChanged && profileChanges.length === 0 && (
+                  <p className="text-sm text-stone-500">These versions are identical.</p>
+                )}
+                {(diff.orderChanged || diff.collectionsChanged) && (
+                  <p className="text-sm text-stone-600">
+                    {[diff.orderChanged && 'The gallery order changed.', diff.collectionsChanged && 'Collections changed.'].filter(Boolean).join(' ')}
+                  </p>
+                )}
+
+                {diff.artworks.map(change => {
+                  const title = change.after?.title || change.before?.title || change.id;
+                  return (
+                    <div key={change.id} className="border border-stone-200 rounded p-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className={`text-xs px-2 py-0.5 rounded ${CHANGE_STYLES[change.kind]}`}>{change.kind}</span>
+                          <span className="text-sm text-stone-900 truncate">{title}</span>
+                        </div>
+                        {change.before && baseSha && (
+                          <button
+                            onClick={() => runRestore(
+                              `artwork-${change.id}`,
+                              `Restore "${title}" as it was ${base ? `on ${formatDate(base.date)}` : 'before this change'}?`,
+                              () => restoreArtwork(change.id, baseSha, repoConfig),
+                              `Restored "${title}".`
+                            )}
+                            disabled={busyKey !== null}
+                            className="text-xs font-medium text-stone-700 hover:text-stone-900 hover:underline disabled:opacity-50 shrink-0"
+                          >
+                            {busyKey === `artwork-${change.id}` ? 'Restoring...' : 'Restore "before"'}
+                          </button>
+                        )}
+                      </div>
+                      {change.kind === 'changed' && <FieldChanges changes={change.fields} />}
+                    </div>
+                  );
+                })}
+
+                {profileChanges.length > 0 && (
+                  <div className="border border-stone-200 rounded p-3">
+                    <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">profile</span>
+                    <FieldChanges changes={profileChanges} />
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+};
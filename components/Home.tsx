@@ -0,0 +1,72 @@
+import React from 'react';
+import { Artwork, Locale, Profile } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+import { uiStrings } from '../services/i18n';
+
+interface HomeProps {
+  profile: Profile | null;
+  artworks: Artwork[];
+  locale: Locale;
+  onEnterGallery: () => void;
+  onSelectArtwork: (id: string) => void;
+}
+
+export const Home: React.FC<HomeProps> = ({ profile, artworks, locale, onEnterGallery, onSelectArtwork }) => {
+  // Fall back to the first artwork of the curated order when no featured image has been chosen
+  const featuredImageUrl = profile?.featuredImageUrl || artworks[0]?.imageUrl;
+  // The manifest is in curated order, so recency comes from the upload date
+  const recentWorks = [...artworks].sort((a, b) => b.createdAt - a.createdAt).slice(0, 3);
+  const t = uiStrings(locale);
+
+  return (
+    <div className="py-12 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <section className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-center">
+        <div className="space-y-6 order-2 lg:order-1">
+          <h2 className="font-serif text-4xl md:text-5xl text-stone-900 leading-tight">{t.welcome}</h2>
+          {(profile?.welcomeMessage || '').split('\n\n').filter(Boolean).map((paragraph, idx) => (
+            <p key={idx} className="text-stone-700 leading-relaxed font-light text-lg">
+              {paragraph}
+            </p>
+          ))}
+          <button
+            onClick={onEnterGallery}
+            className="px-6 py-3 bg-stone-900 text-white font-serif tracking-wide rounded hover:bg-stone-800 transition-colors"
+          >
+            {t.viewCollection}
+          </button>
+        </div>
+        {featuredImageUrl && (
+          <div className="order-1 lg:order-2 bg-stone-200 shadow-2xl">
+            <img 
+              src={featuredImageUrl} 
+              alt="Featured artwork" 
+              className="w-full h-auto max-h-[75vh] object-cover"
+            />
+          </div>
+        )}
+      </section>
+
+      {recentWorks.length > 0 && (
+        <section className="mt-24">
+          <h3 className="text-xs uppercase tracking-widest text-stone-500 mb-6">{t.recentWorks}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+            {recentWorks.map(art => (
+              <button key={art.id} type="button" className="group block w-full text-left" onClick={() => onSelectArtwork(art.id)}>
+                <span className="block aspect-square overflow-hidden bg-stone-200">
+                  <ArtworkImage 
+                    artwork={art} 
+                    sizes="(min-width: 768px) 33vw, 100vw"
+                    className="w-full h-full object-cover motion-safe:transition-transform motion-safe:duration-700 motion-safe:group-hover:scale-105"
+                    loading="lazy"
+                  />
+                </span>
+                <span className="block font-serif text-lg text-stone-900 mt-4 group-hover:text-amber-700 group-focus-visible:text-amber-700 transition-colors">{art.title}</span>
+                <span className="block text-xs text-stone-500 mt-1 uppercase tracking-wider">{art.medium}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Artwork, Inquiry, InquiryKind, Locale } from '../types';
+import { InquiryResult } from '../services/inquiryService';
+import { uiStrings } from '../services/i18n';
+
+interface InquiryFormProps {
+  artwork: Artwork;
+  locale: Locale;
+  onSubmit: (inquiry: Inquiry) => Promise<InquiryResult>;
+}
+
+export const InquiryForm: React.FC<InquiryFormProps> = ({ artwork, locale, onSubmit }) => {
+  const t = uiStrings(locale);
+  // Sold or withheld works can still prompt a commission of something similar
+  const canPurchase = !artwork.availability || artwork.availability === 'available' || artwork.availability === 'reserved';
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<InquiryKind>(canPurchase ? 'purchase' : 'commission');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<InquiryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    try {
+      setResult(await onSubmit({
+        artworkId: artwork.id,
+        artworkTitle: artwork.title,
+        kind,
+        name: name.trim(),
+        email: email.trim(),
+        message: message.trim(),
+        createdAt: Date.now(),
+        locale,
+      }));
+    } catch (err) {
+      console.error(err);
+      setError(t.inquiryFailed);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (result) {
+    return <p className="text-sm text-stone-700 bg-stone-100 p-4 rounded">{result === 'sent' ? t.inquirySent : t.inquiryHandoff}</p>;
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-6 py-3 bg-stone-900 text-white font-serif tracking-wide rounded hover:bg-stone-800 transition-colors"
+      >
+        {t.inquire}
+      </button>
+    );
+  }
+
+  const inputClass = "w-full px-3 py-2 bg-white border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none text-sm";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {canPurchase && (
+        <fieldset className="flex flex-wrap gap-4 text-sm text-stone-700">
+          <legend className="sr-only">{t.inquiryKindLabel}</legend>
+          {(['purchase', 'commission'] as InquiryKind[]).map(option => (
+            <label key={option} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="inquiry-kind"
+                checked={kind === option}
+                onChange={() => setKind(option)}
+                className="accent-stone-900"
+              />
+              {option === 'purchase' ? t.inquiryPurchase : t.inquiryCommission}
+            </label>
+          ))}
+        </fieldset>
+      )}
+      <input type="text" required value={name} onChange={(e) => setName(e.target.value)} placeholder={t.yourName} aria-label={t.yourName} className={inputClass} />
+      <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t.yourEmail} aria-label={t.yourEmail} className={inputClass} />
+      <textarea required value={message} onChange={(e) => setMessage(e.target.value)} rows={4} placeholder={t.yourMessage} aria-label={t.yourMessage} className={inputClass} />
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          disabled={isSending}
+          className="flex-1 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-100 disabled:opacity-50 text-sm"
+        >
+          {t.cancel}
+        </button>
+        <button
+          type="submit"
+          disabled={isSending}
+          className="flex-1 py-2 bg-stone-900 text-white rounded hover:bg-stone-800 disabled:opacity-50 text-sm"
+        >
+          {isSending ? t.sending : t.send}
+        </button>
+      </div>
+    </form>
+  );
+};
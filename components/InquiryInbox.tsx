@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Artwork, InquirySettings, ReceivedInquiry, RepoConfig } from '../types';
+import { listInquiries, INQUIRY_TRANSPORT_LABELS } from '../services/inquiryService';
+import { setInquiryIssueOpen } from '../services/githubService';
+import { ArtworkImage } from './ArtworkImage';
+
+interface InquiryInboxProps {
+  settings?: InquirySettings;
+  artworks: Artwork[];
+  repoConfig: RepoConfig;
+  onConfigure: () => void;
+}
+
+export const InquiryInbox: React.FC<InquiryInboxProps> = ({ settings, artworks, repoConfig, onConfigure }) => {
+  const [inquiries, setInquiries] = useState<ReceivedInquiry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transport = settings?.transport || 'none';
+  const canList = transport === 'github' || transport === 'webhook';
+
+  const load = async () => {
+    if (!settings || !canList) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setInquiries(await listInquiries(settings, repoConfig));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to load inquiries");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [settings?.transport, settings?.webhookUrl, repoConfig.token]);
+
+  const toggleOpen = async (inquiry: ReceivedInquiry) => {
+    if (!inquiry.issueNumber) return;
+    setUpdatingId(inquiry.id);
+    setError(null);
+    try {
+      await setInquiryIssueOpen(inquiry.issueNumber, !inquiry.isOpen, repoConfig);
+      setInquiries(prev => prev.map(i => i.id === inquiry.id ? { ...i, isOpen: !inquiry.isOpen } : i));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to update inquiry");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const visible = showClosed ? inquiries : inquiries.filter(i => i.isOpen !== false);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-xl font-medium text-stone-900 mb-2">Inquiries</h3>
+            <p className="text-stone-500 text-sm">
+              Channel: <strong>{INQUIRY_TRANSPORT_LABELS[transport]}</strong>{' '}
+              <button onClick={onConfigure} className="underline underline-offset-2 hover:text-stone-900">Change</button>
+            </p>
+          </div>
+          {canList && (
+            <button
+              onClick={load}
+              disabled={isLoading}
+              className="px-4 py-2 border border-stone-300 rounded text-stone-700 hover:bg-stone-50 disabled:opacity-50 text-sm"
+            >
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+          )}
+        </div>
+
+        {transport === 'none' && (
+          <p className="text-sm text-stone-600 mt-6">Inquiries are switched off, so visitors do not see an inquiry button.</p>
+        )}
+        {transport === 'mailto' && (
+          <p className="text-sm text-stone-600 mt-6">Inquiries open the visitor's mail app and arrive in your inbox at {settings?.email}.</p>
+        )}
+        {transport === 'github' && (
+          <label className="flex items-center gap-2 text-sm text-stone-600 mt-6 cursor-pointer">
+            <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} className="accent-stone-900" />
+            Show closed inquiries
+          </label>
+        )}
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        {canList && !isLoading && !error && visible.length === 0 && (
+          <p className="text-stone-500 text-sm mt-6">No inquiries yet.</p>
+        )}
+      </div>
+
+      {visible.map(inquiry => {
+        const artwork = artworks.find(art => art.id === inquiry.artworkId);
+        return (
+          <div key={inquiry.id} className={`bg-white p-6 rounded-lg shadow-sm border border-stone-200 flex gap-4 ${inquiry.isOpen === false ? 'opacity-60' : ''}`}>
+            {artwork && (
+              <div className="w-20 h-20 bg-stone-100 flex-shrink-0">
+                <ArtworkImage artwork={artwork} thumbnail className="w-full h-full object-cover" loading="lazy" />
+              </div>
+            )}
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-medium text-stone-900">
+                    {inquiry.kind === 'commission' ? 'Commission' : 'Purchase'}: {inquiry.artworkTitle}
+                  </p>
+                  <p className="text-xs text-stone-500">
+                    {inquiry.name}{inquiry.email && <> · <a href={`mailto:${inquiry.email}`} className="underline">{inquiry.email}</a></>}
+                    {' · '}{new Date(inquiry.createdAt).toLocaleString()}
+                    {inquiry.locale && ` · ${inquiry.locale.toUpperCase()}`}
+                  </p>
+                </div>
+                <div className="flex gap-3 text-xs font-medium flex-shrink-0">
+                  {inquiry.url && (
+                    <a href={inquiry.url} target="_blank" rel="noopener noreferrer" className="text-stone-600 hover:text-stone-900">Open on GitHub</a>
+                  )}
+                  {inquiry.issueNumber !== undefined && (
+                    <button
+                      onClick={() => toggleOpen(inquiry)}
+                      disabled={updatingId !== null || !repoConfig.token}
+                      className="text-stone-600 hover:text-stone-900 disabled:opacity-50"
+                    >
+                      {updatingId === inquiry.id ? 'Saving...' : inquiry.isOpen ? 'Mark done' : 'Reopen'}
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm text-stone-700 whitespace-pre-line">{inquiry.message}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
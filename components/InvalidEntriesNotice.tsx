@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { InvalidManifestEntry, RepoConfig } from '../types';
+import { canWrite, discardInvalidEntries } from '../services/galleryStore';
+
+interface InvalidEntriesNoticeProps {
+  entries: InvalidManifestEntry[];
+  repoConfig: RepoConfig;
+  onChanged: () => void;
+}
+
+// Lists gallery.json entries that were skipped on load, so they can be fixed in the file or removed
+export const InvalidEntriesNotice: React.FC<InvalidEntriesNoticeProps> = ({ entries, repoConfig, onChanged }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (entries.length === 0) return null;
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove ${entries.length} invalid ${entries.length === 1 ? 'entry' : 'entries'} from gallery.json? This cannot be undone here.`)) return;
+    setIsRemoving(true);
+    setError(null);
+    try {
+      await discardInvalidEntries(repoConfig);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to remove invalid entries");
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-2" role="status">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p>
+          <strong>{entries.length} {entries.length === 1 ? 'entry' : 'entries'} in gallery.json could not be read</strong> and {entries.length === 1 ? 'is' : 'are'} hidden
+          from the site. {entries.length === 1 ? 'It is' : 'They are'} kept unchanged when you save, so you can fix the file by hand.
+        </p>
+        <div className="flex gap-3 text-xs font-medium">
+          <button onClick={() => setIsExpanded(!isExpanded)} className="text-yellow-900 hover:underline">
+            {isExpanded ? 'Hide details' : 'Show details'}
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={isRemoving || !canWrite(repoConfig)}
+            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            {isRemoving ? 'Removing...' : 'Remove them'}
+          </button>
+        </div>
+      </div>
+      {isExpanded && (
+        <ul className="space-y-1 text-xs">
+          {entries.map(entry => (
+            <li key={`${entry.kind}-${entry.index}`}>
+              <span className="font-medium">
+                {entry.kind === 'artwork' ? 'Artwork' : 'Collection'} #{entry.index + 1}{entry.id ? ` (${entry.id})` : ''}:
+              </span>{' '}
+              <span className="font-mono">{entry.errors.join('; ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
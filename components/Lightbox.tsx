@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Artwork, Inquiry, Locale } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+import { ZoomableImage } from './ZoomableImage';
+import { InquiryForm } from './InquiryForm';
+import { InquiryResult } from '../services/inquiryService';
+import { uiStrings } from '../services/i18n';
+import { availabilityLabel, formatDimensions, formatEdition, formatPrice, visiblePrice } from '../services/catalog';
+
+const SLIDESHOW_INTERVAL_MS = 8000;
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Arrow keys and space belong to form fields while typing an inquiry
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+interface LightboxProps {
+  artwork: Artwork;
+  // The (filtered, sorted) list the artwork was opened from; arrows and swipes move through it
+  sequence: Artwork[];
+  // Nearest neighbours by meaning, shown as "More like this"
+  similar: Artwork[];
+  locale: Locale;
+  onNavigate: (id: string) => void;
+  // Opens a similar work as a new history entry, so Back returns here
+  onSelectSimilar: (id: string) => void;
+  onClose: () => void;
+  onSelectTag: (tag: string) => void;
+  onSubmitInquiry?: (inquiry: Inquiry) => Promise<InquiryResult>;
+}
+
+export const Lightbox: React.FC<LightboxProps> = ({
+  artwork,
+  sequence,
+  similar,
+  locale,
+  onNavigate,
+  onSelectSimilar,
+  onClose,
+  onSelectTag,
+  onSubmitInquiry
+}) => {
+  const t = uiStrings(locale);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const [isSlideshow, setIsSlideshow] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const index = sequence.findIndex(art => art.id === artwork.id);
+  const hasSequence = index !== -1 && sequence.length > 1;
+  const price = visiblePrice(artwork);
+  const titleId = `lightbox-title-${artwork.id}`;
+
+  // Stops at either end, except in the slideshow which loops
+  const go = (direction: 'next' | 'previous', wrap = false) => {
+    if (!hasSequence) return;
+    const target = index + (direction === 'next' ? 1 : -1);
+    if (wrap) onNavigate(sequence[(target + sequence.length) % sequence.length].id);
+    else if (target >= 0 && target < sequence.length) onNavigate(sequence[target].id);
+  };
+
+  const startSlideshow = () => {
+    setIsSlideshow(true);
+    setIsPaused(false);
+    dialogRef.current?.requestFullscreen?.().catch(() => {
+      // Fullscreen can be refused (iframes, iOS); the slideshow still fills the window
+    });
+  };
+
+  const stopSlideshow = () => {
+    setIsSlideshow(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  };
+
+  // Move focus into the dialog, lock page scroll, and hand focus back on close
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    closeButtonRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previouslyFocused?.focus?.();
+    };
+  }, []);
+
+  // Leaving fullscreen with the browser's own Escape also ends the slideshow
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) setIsSlideshow(false);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    if (!isSlideshow || isPaused || !hasSequence) return;
+    const timer = setTimeout(() => go('next', true), SLIDESHOW_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isSlideshow, isPaused, artwork.id, hasSequence]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (isSlideshow) stopSlideshow();
+        else onClose();
+        return;
+      }
+
+      if (e.key === 'Tab') {
+        // Keep focus inside the dialog
+        const candidates: HTMLElement[] = dialogRef.current ? Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)) : [];
+        const focusable = candidates.filter(el => el.offsetParent !== null);
+        if (focusable.length === 0) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+        return;
+      }
+
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'ArrowRight') go('next', isSlideshow);
+      else if (e.key === 'ArrowLeft') go('previous', isSlideshow);
+      else if (e.key === ' ' && isSlideshow) {
+        e.preventDefault();
+        setIsPaused(paused => !paused);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const navButtonClass = "absolute top-1/2 -translate-y-1/2 z-10 w-12 h-12 flex items-center justify-center rounded-full text-stone-300 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent transition-colors";
+
+  const navButtons = hasSequence && (
+    <>
+      <button onClick={() => go('previous', isSlideshow)} disabled={!isSlideshow && index === 0} className={`${navButtonClass} left-2 md:left-6`} aria-label={t.previous}>
+        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 19l-7-7 7-7" /></svg>
+      </button>
+      <button onClick={() => go('next', isSlideshow)} disabled={!isSlideshow && index === sequence.length - 1} className={`${navButtonClass} right-2 md:right-6`} aria-label={t.next}>
+        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" /></svg>
+      </button>
+    </>
+  );
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      className={`fixed inset-0 z-[100] flex items-center justify-center animate-fade-in ${
+        isSlideshow ? 'bg-black' : 'p-4 bg-stone-900/95 backdrop-blur-sm'
+      }`}
+    >
+      {/* Announces the current work to screen readers as visitors page through */}
+      <p className="sr-only" aria-live="polite">
+        {artwork.title}{hasSequence ? `, ${t.position(index + 1, sequence.length)}` : ''}
+      </p>
+
+      <div className="absolute top-6 right-6 z-20 flex items-center gap-4">
+        {hasSequence && (
+          isSlideshow ? (
+            <button
+              onClick={() => setIsPaused(paused => !paused)}
+              className="text-xs uppercase tracking-widest text-stone-400 hover:text-white transition-colors"
+            >
+              {isPaused ? t.playSlideshow : t.pauseSlideshow}
+            </button>
+          ) : (
+            <button
+              onClick={startSlideshow}
+              className="text-xs uppercase tracking-widest text-stone-400 hover:text-white transition-colors"
+            >
+              {t.slideshow}
+            </button>
+          )
+        )}
+        <button
+          ref={closeButtonRef}
+          onClick={isSlideshow ? stopSlideshow : onClose}
+          className="text-stone-400 hover:text-white transition-colors"
+          aria-label={isSlideshow ? t.exitSlideshow : t.close}
+        >
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      {navButtons}
+
+      {isSlideshow ? (
+        <figure className="w-full h-full flex flex-col items-center justify-center p-8">
+          <ArtworkImage
+            key={artwork.id}
+            artwork={artwork}
+            sizes="100vw"
+            className="max-w-full max-h-[88vh] w-auto h-auto object-contain animate-fade-in"
+          />
+          <figcaption id={titleId} className="mt-4 text-stone-400 font-serif text-lg">
+            {artwork.title}{artwork.year && `, ${artwork.year}`}
+            {hasSequence && <span className="ml-4 text-xs tracking-widest text-stone-400">{t.position(index + 1, sequence.length)}</span>}
+          </figcaption>
+        </figure>
+      ) : (
+        <div className="bg-white max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col md:flex-row shadow-2xl">
+          <div className="md:w-2/3 h-[50vh] md:h-[85vh] bg-stone-100 p-2">
+            <ZoomableImage
+              key={artwork.id}
+              artwork={artwork}
+              alt={artwork.altText || artwork.title}
+              className="max-w-full max-h-full w-auto h-auto object-contain"
+              onSwipe={(direction) => go(direction)}
+              labels={{ zoomIn: t.zoomIn, zoomOut: t.zoomOut, resetZoom: t.resetZoom }}
+            />
+          </div>
+          <div className="md:w-1/3 p-8 md:p-12 overflow-y-auto bg-stone-50 flex flex-col justify-center">
+            <div className="space-y-6">
+              <div className="border-b border-stone-200 pb-4">
+                <h2 id={titleId} className="font-serif text-3xl md:text-4xl text-stone-900 mb-2">
+                  {artwork.title}
+                  {artwork.year && <span className="text-stone-500">, {artwork.year}</span>}
+                </h2>
+                <p className="text-stone-500 uppercase tracking-widest text-sm font-medium">
+                  {artwork.medium}
+                </p>
+                {artwork.dimensions && (
+                  <p className="text-stone-500 text-sm mt-1">{formatDimensions(artwork.dimensions, locale)}</p>
+                )}
+                {artwork.edition && (
+                  <p className="text-stone-500 text-sm mt-1">{formatEdition(artwork.edition, t)}</p>
+                )}
+                {price ? (
+                  <p className="text-stone-900 text-sm mt-3">{formatPrice(price, locale)}</p>
+                ) : artwork.availability && artwork.availability !== 'available' && (
+                  <p className="flex items-center gap-2 text-stone-700 text-sm mt-3">
+                    {artwork.availability === 'sold' && <span className="w-2 h-2 rounded-full bg-red-600" />}
+                    {availabilityLabel(artwork.availability, t)}
+                  </p>
+                )}
+              </div>
+
+              <p className="text-stone-700 leading-relaxed font-light text-lg">
+                {artwork.description}
+              </p>
+
+              <div className="pt-4">
+                <div className="flex flex-wrap gap-2">
+                  {artwork.tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => onSelectTag(tag)}
+                      className="px-3 py-1 bg-stone-200 text-stone-600 text-xs rounded-full hover:bg-stone-300 hover:text-stone-900 transition-colors"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {similar.length > 0 && (
+                <div className="pt-4 border-t border-stone-200">
+                  <h3 className="text-xs uppercase tracking-widest text-stone-500 mb-3">{t.moreLikeThis}</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    {similar.map(art => (
+                      <button
+                        key={art.id}
+                        onClick={() => onSelectSimilar(art.id)}
+                        className="aspect-square overflow-hidden bg-stone-200 hover:opacity-80 transition-opacity"
+                        title={art.title}
+                        aria-label={art.title}
+                      >
+                        <ArtworkImage artwork={art} alt="" sizes="120px" className="w-full h-full object-cover" loading="lazy" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {onSubmitInquiry && (
+                <div className="pt-4 border-t border-stone-200">
+                  <InquiryForm key={artwork.id} artwork={artwork} locale={locale} onSubmit={onSubmitInquiry} />
+                </div>
+              )}
+
+              {hasSequence && (
+                <p className="text-xs uppercase tracking-widest text-stone-500">{t.position(index + 1, sequence.length)}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Artwork, EmbeddingIndex, RepoConfig, SiteSettings } from '../types';
+import { canWrite, updateSiteSettings } from '../services/galleryStore';
+import { backfillEmbeddings, fetchEmbeddingIndex, needsEmbedding } from '../services/semanticSearch';
+
+interface SearchIndexPanelProps {
+  artworks: Artwork[];
+  siteSettings: SiteSettings;
+  repoConfig: RepoConfig;
+  onChanged: () => void;
+}
+
+// Status of embeddings.json, a backfill for works published before it existed, or edited since,
+// and the opt-in that shows search by meaning to visitors
+export const SearchIndexPanel: React.FC<SearchIndexPanelProps> = ({ artworks, siteSettings, repoConfig, onChanged }) => {
+  const [index, setIndex] = useState<EmbeddingIndex | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSavingOptIn, setIsSavingOptIn] = useState(false);
+  const publicMeaningSearch = Boolean(siteSettings.search?.publicMeaningSearch);
+
+  const loadIndex = async () => {
+    setIsLoading(true);
+    try {
+      setIndex(await fetchEmbeddingIndex(repoConfig));
+    } catch (err) {
+      console.warn(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadIndex();
+  }, [repoConfig]);
+
+  const outdated = artworks.filter(art => needsEmbedding(art, index));
+
+  const handleBackfill = async () => {
+    setIsIndexing(true);
+    setError(null);
+    setProgress('Describing and embedding artworks...');
+    try {
+      const count = await backfillEmbeddings(artworks, repoConfig, siteSettings.curator, (done, total) => setProgress(`Indexed ${done} of ${total}...`));
+      setProgress(`Indexed ${count} ${count === 1 ? 'artwork' : 'artworks'}.`);
+      await loadIndex();
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to build the search index");
+      setProgress('');
+    } finally {
+      setIsIndexing(false);
+    }
+  };
+
+  const handleTogglePublicSearch = async (enabled: boolean) => {
+    setIsSavingOptIn(true);
+    setError(null);
+    try {
+      await updateSiteSettings({ ...siteSettings, search: { ...siteSettings.search, publicMeaningSearch: enabled || undefined } }, repoConfig);
+      onChanged();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to save the search setting");
+    } finally {
+      setIsSavingOptIn(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8 bg-white p-8 rounded-lg shadow-sm border border-stone-200">
+      <h3 className="text-xl font-medium text-stone-900 mb-2">Search by Meaning</h3>
+      <p className="text-stone-500 text-sm mb-6">
+        Visitors see similar works next to each piece and, if you allow it below, can search for moods, colours or
+        subjects ("feels like autumn"). New uploads are indexed when published. Works published earlier, or edited since, need indexing here;
+        each one costs a Gemini image description and two embeddings.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-stone-500 animate-pulse">Checking the search index...</p>
+      ) : (
+        <p className="text-sm text-stone-700 mb-4">
+          {artworks.length - outdated.length} of {artworks.length} works are indexed.
+          {outdated.length > 0 && ` ${outdated.length} ${outdated.length === 1 ? 'needs' : 'need'} indexing.`}
+        </p>
+      )}
+
+      <button
+        onClick={handleBackfill}
+        disabled={isLoading || isIndexing || outdated.length === 0 || !canWrite(repoConfig)}
+        className="w-full py-2 rounded font-medium text-white bg-stone-900 hover:bg-stone-800 disabled:opacity-50 transition-colors"
+      >
+        {isIndexing ? 'Indexing...' : outdated.length === 0 ? 'Index up to date' : `Index ${outdated.length} ${outdated.length === 1 ? 'work' : 'works'}`}
+      </button>
+      {progress && <p className="text-sm text-stone-500 mt-2 text-center">{progress}</p>}
+
+      <div className="mt-6 pt-6 border-t border-stone-200">
+        <label className="flex items-center gap-2 text-sm font-medium text-stone-700">
+          <input
+            type="checkbox"
+            checked={publicMeaningSearch}
+            disabled={isSavingOptIn || !canWrite(repoConfig)}
+            onChange={(e) => handleTogglePublicSearch(e.target.checked)}
+            className="accent-stone-900"
+          />
+          Let visitors search by meaning
+        </label>
+        <p className="text-xs text-yellow-800 mt-2">
+          Each visitor search is a Gemini embedding request made with the API key built into the public site.
+          It counts against your quota and billing, and anyone can read the key from the site's code.
+          Use a key restricted to your site's address with a low quota before turning this on.
+        </p>
+      </div>
+      {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+    </div>
+  );
+};
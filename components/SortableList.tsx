@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Artwork } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+interface SortableListProps {
+  artworks: Artwork[];
+  onChange: (artworks: Artwork[]) => void;
+  // Shown per row when given, e.g. to take a work out of a collection
+  onRemove?: (artwork: Artwork) => void;
+  disabled?: boolean;
+}
+
+// Reorderable artwork rows. Drag and drop for the mouse, arrow buttons for touch and keyboard.
+export const SortableList: React.FC<SortableListProps> = ({ artworks, onChange, onRemove, disabled }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (idx: number) => {
+    if (dragIndex !== null && dragIndex !== idx) onChange(move(artworks, dragIndex, idx));
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <ol className="divide-y divide-stone-100 border border-stone-200 rounded">
+      {artworks.map((art, idx) => (
+        <li
+          key={art.id}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(idx)}
+          onDragOver={(e) => { e.preventDefault(); setOverIndex(idx); }}
+          onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+          onDrop={(e) => { e.preventDefault(); handleDrop(idx); }}
+          className={`flex items-center gap-3 p-2 bg-white ${disabled ? '' : 'cursor-move'} ${
+            overIndex === idx && dragIndex !== idx ? 'bg-stone-100' : ''
+          } ${dragIndex === idx ? 'opacity-40' : ''}`}
+        >
+          <span className="w-6 text-right text-xs text-stone-500 tabular-nums">{idx + 1}</span>
+          <div className="w-12 h-12 bg-stone-100 flex-shrink-0">
+            <ArtworkImage artwork={art} thumbnail className="w-full h-full object-cover" loading="lazy" />
+          </div>
+          <span className="flex-1 text-sm text-stone-900 truncate">{art.title}</span>
+          <div className="flex items-center gap-1 text-stone-500">
+            <button
+              onClick={() => onChange(move(artworks, idx, idx - 1))}
+              disabled={disabled || idx === 0}
+              className="px-2 py-1 hover:text-stone-900 disabled:opacity-30"
+              aria-label={`Move ${art.title} up`}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onChange(move(artworks, idx, idx + 1))}
+              disabled={disabled || idx === artworks.length - 1}
+              className="px-2 py-1 hover:text-stone-900 disabled:opacity-30"
+              aria-label={`Move ${art.title} down`}
+            >
+              ↓
+            </button>
+            {onRemove && (
+              <button
+                onClick={() => onRemove(art)}
+                disabled={disabled}
+                className="px-2 py-1 text-red-600 hover:text-red-800 disabled:opacity-30 text-xs"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
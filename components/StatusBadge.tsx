@@ -0,0 +1,37 @@
+import React from 'react';
+import { Artwork, ArtworkStatus } from '../types';
+import { isPubliclyVisible, statusOf } from '../services/artworkStatus';
+
+export const ARTWORK_STATUS_LABELS: Record<ArtworkStatus, string> = {
+  published: 'Published',
+  scheduled: 'Scheduled',
+  draft: 'Draft',
+  hidden: 'Hidden',
+};
+
+const STATUS_STYLES: Record<ArtworkStatus, string> = {
+  published: 'bg-green-50 text-green-700',
+  scheduled: 'bg-blue-50 text-blue-700',
+  draft: 'bg-amber-50 text-amber-800',
+  hidden: 'bg-stone-200 text-stone-600',
+};
+
+interface StatusBadgeProps {
+  artwork: Artwork;
+  className?: string;
+}
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ artwork, className = '' }) => {
+  const status = statusOf(artwork);
+  // A scheduled work whose time has passed is live, but keeps its date for reference
+  const isLive = status === 'scheduled' && isPubliclyVisible(artwork);
+  const label = status === 'scheduled' && artwork.publishAt
+    ? `${isLive ? 'Live since' : 'Scheduled'} ${new Date(artwork.publishAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+    : ARTWORK_STATUS_LABELS[status];
+
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium ${isLive ? STATUS_STYLES.published : STATUS_STYLES[status]} ${className}`}>
+      {label}
+    </span>
+  );
+};
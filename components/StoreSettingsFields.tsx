@@ -0,0 +1,116 @@
+import React from 'react';
+import { RepoConfig, S3StoreConfig, StorageBackend } from '../types';
+import { STORAGE_BACKEND_LABELS, backendOf } from '../services/galleryStore';
+import { DEFAULT_LOCAL_STORE_URL } from '../services/localStore';
+
+const EMPTY_S3: S3StoreConfig = { endpoint: '', bucket: '', region: 'us-east-1', accessKeyId: '' };
+
+interface StoreSettingsFieldsProps {
+  value: RepoConfig;
+  onChange: (config: RepoConfig) => void;
+  inputClass: string;
+}
+
+// Backend picker plus the fields each backend needs; shared by the studio login and settings
+export const StoreSettingsFields: React.FC<StoreSettingsFieldsProps> = ({ value, onChange, inputClass }) => {
+  const backend = backendOf(value);
+  const s3 = value.s3 || EMPTY_S3;
+  const setS3 = (changes: Partial<S3StoreConfig>) => onChange({ ...value, s3: { ...s3, ...changes } });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-stone-700 mb-1">Storage</label>
+        <select
+          value={backend}
+          onChange={(e) => onChange({ ...value, backend: e.target.value as StorageBackend })}
+          className={`${inputClass} bg-white`}
+        >
+          {(Object.keys(STORAGE_BACKEND_LABELS) as StorageBackend[]).map(kind => (
+            <option key={kind} value={kind}>{STORAGE_BACKEND_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+
+      {backend === 'github' && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">GitHub Username</label>
+              <input type="text" value={value.owner} onChange={(e) => onChange({ ...value, owner: e.target.value })} className={inputClass} placeholder="e.g., octocat" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Repository</label>
+              <input type="text" value={value.repo} onChange={(e) => onChange({ ...value, repo: e.target.value })} className={inputClass} placeholder="e.g., my-art-gallery" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Branch</label>
+            <input type="text" value={value.branch} onChange={(e) => onChange({ ...value, branch: e.target.value })} className={inputClass} placeholder="main" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">GitHub Token</label>
+            <input type="password" value={value.token || ''} onChange={(e) => onChange({ ...value, token: e.target.value })} className={inputClass} placeholder="github_pat_... or ghp_..." />
+            <p className="text-xs text-stone-500 mt-1">
+              Fine-grained token with <strong>Contents: Read and write</strong> on this repository, or a classic token with <code>repo</code> scope.
+              It is saved on this device encrypted with your studio passphrase.
+            </p>
+          </div>
+        </>
+      )}
+
+      {backend === 'local' && (
+        <div>
+          <label className="block text-sm font-medium text-stone-700 mb-1">Dev Server URL</label>
+          <input
+            type="text"
+            value={value.local?.url || ''}
+            onChange={(e) => onChange({ ...value, local: { url: e.target.value } })}
+            className={`${inputClass} font-mono text-sm`}
+            placeholder={DEFAULT_LOCAL_STORE_URL}
+          />
+          <p className="text-xs text-stone-500 mt-1">
+            Served by <code>npm run dev</code>, which keeps gallery files in <code>.dev-gallery/</code>. For development only: anyone who can reach the dev server can change the gallery.
+          </p>
+        </div>
+      )}
+
+      {backend === 's3' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Endpoint</label>
+            <input type="text" value={s3.endpoint} onChange={(e) => setS3({ endpoint: e.target.value })} className={`${inputClass} font-mono text-sm`} placeholder="https://s3.eu-central-1.amazonaws.com or http://localhost:9000" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Bucket</label>
+              <input type="text" value={s3.bucket} onChange={(e) => setS3({ bucket: e.target.value })} className={inputClass} placeholder="my-gallery" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1">Region</label>
+              <input type="text" value={s3.region} onChange={(e) => setS3({ region: e.target.value })} className={inputClass} placeholder="us-east-1" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Access Key ID</label>
+            <input type="text" value={s3.accessKeyId} onChange={(e) => setS3({ accessKeyId: e.target.value })} className={`${inputClass} font-mono text-sm`} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Secret Access Key</label>
+            <input type="password" value={value.token || ''} onChange={(e) => onChange({ ...value, token: e.target.value })} className={inputClass} />
+            <p className="text-xs text-stone-500 mt-1">
+              Saved on this device encrypted with your studio passphrase. Use keys limited to this bucket.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1">Public URL <span className="text-stone-500 font-normal">(optional)</span></label>
+            <input type="text" value={s3.publicUrl || ''} onChange={(e) => setS3({ publicUrl: e.target.value || undefined })} className={`${inputClass} font-mono text-sm`} placeholder="https://cdn.example.com" />
+            <p className="text-xs text-stone-500 mt-1">
+              Where visitors load files from, if not <code>&lt;endpoint&gt;/&lt;bucket&gt;</code>. The bucket must allow public reads, and its CORS rules must allow this site to GET, PUT, DELETE and HEAD and expose the <code>ETag</code> header.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
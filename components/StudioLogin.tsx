@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { RepoConfig, StoredRepoConfig } from '../types';
+import { decryptToken } from '../services/authService';
+import { backendOf, canWrite, describeStore, verifyStoreAccess } from '../services/galleryStore';
+import { StoreSettingsFields } from './StoreSettingsFields';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface StudioLoginProps {
+  repoConfig: RepoConfig;
+  storedConfig: StoredRepoConfig | null;
+  onAuthenticated: (config: RepoConfig, passphrase: string) => Promise<void>;
+}
+
+export const StudioLogin: React.FC<StudioLoginProps> = ({ repoConfig, storedConfig, onAuthenticated }) => {
+  // Unlock an existing encrypted token, or connect a token for the first time on this device
+  const [mode, setMode] = useState<'unlock' | 'setup'>(storedConfig?.encryptedToken ? 'unlock' : 'setup');
+  const draftFrom = (config: RepoConfig): RepoConfig => ({
+    ...config,
+    branch: config.branch || 'main',
+    // A plain-text token from an older version is offered here so saving encrypts it
+    token: storedConfig?.token || '',
+  });
+  const [draft, setDraft] = useState<RepoConfig>(() => draftFrom(repoConfig));
+  // App reads the stored and public config after mount, so on a direct load of #/studio they
+  // arrive after the first render
+  useEffect(() => {
+    if (storedConfig?.encryptedToken) setMode('unlock');
+    setDraft(draftFrom(repoConfig));
+  }, [repoConfig, storedConfig]);
+  // The local dev server has no token, so there is nothing for a passphrase to protect
+  const needsPassphrase = backendOf(draft) !== 'local';
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!storedConfig?.encryptedToken) return;
+
+    setIsVerifying(true);
+    setLoginError(null);
+    try {
+      const decrypted = await decryptToken(storedConfig.encryptedToken, passphrase);
+      // The stored coordinates belong to the token; repoConfig may still be the public config
+      const config: RepoConfig = {
+        owner: storedConfig.owner,
+        repo: storedConfig.repo,
+        branch: storedConfig.branch || 'main',
+        backend: storedConfig.backend,
+        local: storedConfig.local,
+        s3: storedConfig.s3,
+        token: decrypted,
+      };
+      if (!(await verifyStoreAccess(config))) {
+        setLoginError(`This token no longer has write access to ${describeStore(config)}. Connect a new token.`);
+        return;
+      }
+      await onAuthenticated(config, passphrase);
+    } catch (err: any) {
+      setLoginError(err.message || "Could not unlock the studio");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsPassphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setLoginError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (needsPassphrase && passphrase !== confirmPassphrase) {
+      setLoginError("Passphrases do not match.");
+      return;
+    }
+
+    setIsVerifying(true);
+    setLoginError(null);
+    try {
+      const config: RepoConfig = {
+        ...draft,
+        owner: draft.owner.trim(),
+        repo: draft.repo.trim(),
+        branch: draft.branch.trim() || 'main',
+        token: draft.token?.trim() || undefined,
+      };
+      if (!(await verifyStoreAccess(config))) {
+        setLoginError(backendOf(config) === 'github'
+          ? "This token cannot push to the repository. Check Owner, Repo, and Token permissions."
+          : `Could not get write access to ${describeStore(config)}. Check the settings above.`);
+        return;
+      }
+      await onAuthenticated(config, needsPassphrase ? passphrase : '');
+    } catch (err: any) {
+      setLoginError(err.message || "Verification failed.");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none";
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] px-4 py-12">
+      <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-lg border border-stone-100">
+        <h2 className="text-2xl font-serif text-center mb-2 text-stone-900">Artist Access</h2>
+
+        {mode === 'unlock' ? (
+          <>
+            <p className="text-center text-stone-500 text-sm mb-6">
+              Enter your studio passphrase to unlock the credentials saved on this device.
+            </p>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-stone-700 mb-1">Passphrase</label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={inputClass}
+                  placeholder="Enter passphrase..."
+                  autoFocus
+                />
+              </div>
+              {loginError && <p className="text-red-500 text-sm">{loginError}</p>}
+              <button 
+                type="submit"
+                disabled={isVerifying || !passphrase}
+                className="w-full py-2 bg-stone-900 text-white rounded hover:bg-stone-800 transition-colors disabled:opacity-50"
+              >
+                {isVerifying ? 'Verifying...' : 'Enter Studio'}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setMode('setup'); setPassphrase(''); setLoginError(null); }}
+                className="w-full text-xs text-stone-500 hover:text-stone-900"
+              >
+                Connect a different token
+              </button>
+            </form>
+          </>
+        ) : (
+          <>
+            <p className="text-center text-stone-500 text-sm mb-6">
+              Sign in with credentials that can write to your gallery storage, such as a GitHub token.
+              They are stored on this device encrypted with your passphrase.
+            </p>
+            <form onSubmit={handleSetup} className="space-y-4">
+              <StoreSettingsFields value={draft} onChange={setDraft} inputClass={inputClass} />
+              {needsPassphrase && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-1">Studio Passphrase</label>
+                    <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-1">Confirm Passphrase</label>
+                    <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} className={inputClass} />
+                  </div>
+                </>
+              )}
+              {loginError && <p className="text-red-500 text-sm">{loginError}</p>}
+              <button 
+                type="submit"
+                disabled={isVerifying || !canWrite(draft) || (needsPassphrase && !passphrase)}
+                className="w-full py-2 bg-stone-900 text-white rounded hover:bg-stone-800 transition-colors disabled:opacity-50"
+              >
+                {isVerifying ? 'Verifying...' : 'Connect & Enter Studio'}
+              </button>
+              {storedConfig?.encryptedToken && (
+                <button
+                  type="button"
+                  onClick={() => { setMode('unlock'); setPassphrase(''); setConfirmPassphrase(''); setLoginError(null); }}
+                  className="w-full text-xs text-stone-500 hover:text-stone-900"
+                >
+                  Use the saved token instead
+                </button>
+              )}
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
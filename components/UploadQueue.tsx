@@ -0,0 +1,815 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Artwork, ArtworkContext, ArtworkStatus, CuratorSettings, Locale, LocalizedArtworkText, MetadataField, RepoConfig } from '../types';
+import { fileToGenerativePart } from '../services/geminiService';
+import { generateArtworkMetadata, generateFieldAlternatives, metadataProviderKind } from '../services/metadataProvider';
+import { MetadataError, isCancelled } from '../services/metadataErrors';
+import { publishArtworks, canWrite, ArtworkUpload } from '../services/galleryStore';
+import { indexPublishedArtworks } from '../services/semanticSearch';
+import { processImage, computePerceptualHash, isNearDuplicate } from '../services/imageService';
+import { DEFAULT_CONTENT_LOCALE, LOCALE_LABELS, SUPPORTED_LOCALES } from '../services/i18n';
+import { ARTWORK_STATUSES, fromDateTimeLocal } from '../services/artworkStatus';
+import { ARTWORK_STATUS_LABELS } from './StatusBadge';
+
+// Gemini calls run a few at a time so a large studio session does not hit rate limits
+const MAX_CONCURRENT_ANALYSES = 2;
+
+type QueueStatus = 'queued' | 'analysing' | 'draft' | 'failed' | 'publishing' | 'offline' | 'published';
+
+interface QueueItem {
+  // Also the published artwork's id, so a retry after a commit that did go through is
+  // recognised by publishArtworks instead of adding the work twice
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: QueueStatus;
+  // Which step failed, so retry knows whether to re-analyse or re-publish
+  failedStep?: 'analyse' | 'publish';
+  error?: string;
+  approved: boolean;
+  perceptualHash?: string;
+  // Language Gemini writes the metadata in, chosen when the file was added
+  locale: Locale;
+  title: string;
+  description: string;
+  medium: string;
+  tags: string[];
+  altText: string;
+  // Pre-filled only when Gemini can read a date on the work
+  year?: number;
+  // Context given to Gemini along with the image
+  series: string;
+  notes: string;
+  // Suggestions from a per-field regenerate, waiting for the artist to pick one
+  alternatives: { [F in MetadataField]?: LocalizedArtworkText[F][] };
+  regenerating?: MetadataField;
+}
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  queued: 'Waiting',
+  analysing: 'Analysing...',
+  draft: 'Draft',
+  failed: 'Failed',
+  publishing: 'Publishing...',
+  offline: 'Waiting for connection',
+  published: 'Published',
+};
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  queued: 'bg-stone-100 text-stone-600',
+  analysing: 'bg-blue-50 text-blue-700',
+  draft: 'bg-amber-50 text-amber-800',
+  failed: 'bg-red-50 text-red-700',
+  publishing: 'bg-blue-50 text-blue-700',
+  offline: 'bg-stone-200 text-stone-700',
+  published: 'bg-green-50 text-green-700',
+};
+
+const FIELD_LABELS: Record<MetadataField, string> = {
+  title: 'title',
+  description: 'description',
+  medium: 'medium',
+  tags: 'set of tags',
+  altText: 'alt text',
+};
+
+interface FieldLabelProps {
+  label: string;
+  field: MetadataField;
+  item: QueueItem;
+  canRegenerate: boolean;
+  onRegenerate: (field: MetadataField) => void;
+  onCancel: () => void;
+}
+
+const FieldLabel: React.FC<FieldLabelProps> = ({ label, field, item, canRegenerate, onRegenerate, onCancel }) => (
+  <div className="flex justify-between items-baseline mb-1">
+    <label className="block text-sm font-medium text-stone-700">{label}</label>
+    {canRegenerate && (item.regenerating === field ? (
+      <button onClick={onCancel} className="text-xs text-stone-500 hover:text-stone-900" title="Stop asking">
+        Thinking... <span className="underline">Cancel</span>
+      </button>
+    ) : (
+      <button
+        onClick={() => onRegenerate(field)}
+        disabled={item.regenerating !== undefined}
+        className="text-xs text-stone-500 hover:text-stone-900 disabled:opacity-50"
+        title={`Ask Gemini for another ${FIELD_LABELS[field]}`}
+      >
+        ↻ Alternatives
+      </button>
+    ))}
+  </div>
+);
+
+interface AlternativesProps {
+  options: string[];
+  onPick: (index: number) => void;
+  onDismiss: () => void;
+}
+
+// Suggestions for one field; picking one replaces the field's value
+const Alternatives: React.FC<AlternativesProps> = ({ options, onPick, onDismiss }) => (
+  <div className="mt-2 p-3 bg-stone-50 border border-stone-200 rounded space-y-2">
+    {options.map((option, idx) => (
+      <button
+        key={idx}
+        onClick={() => onPick(idx)}
+        className="block w-full text-left text-sm text-stone-700 px-3 py-2 bg-white border border-stone-200 rounded hover:border-stone-500"
+      >
+        {option}
+      </button>
+    ))}
+    <button onClick={onDismiss} className="text-xs text-stone-500 hover:text-stone-900">
+      Keep current
+    </button>
+  </div>
+);
+
+interface TagEditorProps {
+  tags: string[];
+  disabled: boolean;
+  onChange: (tags: string[]) => void;
+}
+
+// Generated tags as chips: × removes one, clicking one moves it into the input to edit,
+// and the input adds comma separated tags on Enter or when it loses focus
+const TagEditor: React.FC<TagEditorProps> = ({ tags, disabled, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const addInput = () => {
+    const added = input.split(',').map(t => t.trim()).filter(Boolean);
+    if (added.length > 0) onChange(Array.from(new Set([...tags, ...added])));
+    setInput('');
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {tags.map((tag, idx) => (
+          <span key={idx} className="bg-stone-100 text-stone-700 px-2 py-1 rounded text-xs flex items-center gap-1">
+            {disabled ? tag : (
+              <button onClick={() => { onChange(tags.filter((_, i) => i !== idx)); setInput(tag); }} className="hover:text-stone-900" title="Edit tag">
+                {tag}
+              </button>
+            )}
+            {!disabled && (
+              <button onClick={() => onChange(tags.filter((_, i) => i !== idx))} className="hover:text-red-500" aria-label={`Remove tag ${tag}`}>×</button>
+            )}
+          </span>
+        ))}
+      </div>
+      {!disabled && (
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addInput();
+            }
+          }}
+          onBlur={addInput}
+          className="w-full mt-2 px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none text-sm"
+          placeholder="Add tags, comma separated"
+        />
+      )}
+    </>
+  );
+};
+
+interface UploadQueueProps {
+  artworks: Artwork[];
+  repoConfig: RepoConfig;
+  // Voice and prompt Gemini writes with, from settings.json
+  curator?: CuratorSettings;
+  isOnline: boolean;
+  onPublished: () => void;
+  // Stores a processed batch to be committed once the connection is back
+  onQueueOffline: (uploads: ArtworkUpload[]) => Promise<void>;
+}
+
+export const UploadQueue: React.FC<UploadQueueProps> = ({ artworks, repoConfig, curator, isOnline, onPublished, onQueueOffline }) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishStatus, setPublishStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [language, setLanguage] = useState<Locale>(DEFAULT_CONTENT_LOCALE);
+  // Context for the next files added; each item can be adjusted before re-analysing
+  const [series, setSeries] = useState('');
+  const [notes, setNotes] = useState('');
+  // Visibility given to the next batch; drafts are committed too, so they sync between devices
+  const [publishAs, setPublishAs] = useState<ArtworkStatus>('published');
+  const [publishAt, setPublishAt] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // One running metadata request per item, so it can be cancelled
+  const requestsRef = useRef(new Map<string, AbortController>());
+
+  const startRequest = (id: string): AbortController => {
+    requestsRef.current.get(id)?.abort();
+    const controller = new AbortController();
+    requestsRef.current.set(id, controller);
+    return controller;
+  };
+
+  const finishRequest = (id: string, controller: AbortController) => {
+    if (requestsRef.current.get(id) === controller) requestsRef.current.delete(id);
+  };
+
+  const cancelRequest = (id: string) => requestsRef.current.get(id)?.abort();
+
+  const updateItem = (id: string, changes: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const contextOf = (item: QueueItem): ArtworkContext => ({ series: item.series, notes: item.notes, year: item.year });
+
+  const analyseItem = async (item: QueueItem) => {
+    updateItem(item.id, { status: 'analysing', error: undefined, failedStep: undefined, alternatives: {} });
+    const controller = startRequest(item.id);
+    try {
+      const base64Data = await fileToGenerativePart(item.file);
+      const metadata = await generateArtworkMetadata(base64Data, item.file.type, item.locale, curator, contextOf(item), controller.signal);
+      updateItem(item.id, {
+        status: 'draft',
+        title: metadata.title,
+        description: metadata.description,
+        medium: metadata.medium,
+        tags: metadata.tags,
+        altText: metadata.altText || '',
+        year: metadata.year,
+      });
+    } catch (err) {
+      console.error(err);
+      if (isCancelled(err)) {
+        // A cancelled re-analysis keeps the draft it started from
+        updateItem(item.id, item.title ? { status: 'draft' } : { status: 'failed', failedStep: 'analyse', error: "Analysis cancelled." });
+      } else if (err instanceof MetadataError && err.kind === 'safety') {
+        // Retrying will not help, so the artist can write the placard instead
+        updateItem(item.id, { status: 'draft', error: err.message });
+      } else {
+        updateItem(item.id, { status: 'failed', failedStep: 'analyse', error: err instanceof MetadataError ? err.message : "Failed to analyze image." });
+      }
+    } finally {
+      finishRequest(item.id, controller);
+    }
+  };
+
+  const regenerateField = async (item: QueueItem, field: MetadataField) => {
+    updateItem(item.id, { regenerating: field, error: undefined });
+    const controller = startRequest(item.id);
+    try {
+      const base64Data = await fileToGenerativePart(item.file);
+      const current = { title: item.title, description: item.description, medium: item.medium, tags: item.tags, altText: item.altText };
+      const options = await generateFieldAlternatives(
+        base64Data, item.file.type, field, current, item.locale, curator, contextOf(item), undefined, controller.signal
+      );
+      setItems(prev => prev.map(i => i.id === item.id
+        ? { ...i, regenerating: undefined, alternatives: { ...i.alternatives, [field]: options } }
+        : i));
+    } catch (err) {
+      console.error(err);
+      updateItem(item.id, {
+        regenerating: undefined,
+        error: isCancelled(err)
+          ? undefined
+          : `Could not suggest another ${FIELD_LABELS[field]}. ${err instanceof MetadataError ? err.message : 'Try again in a moment.'}`,
+      });
+    } finally {
+      finishRequest(item.id, controller);
+    }
+  };
+
+  // Stops an item's running request, or takes it out of the line if it has not started
+  const cancelItem = (item: QueueItem) => {
+    if (item.status === 'queued') {
+      updateItem(item.id, { status: 'failed', failedStep: 'analyse', error: "Analysis cancelled." });
+    } else {
+      cancelRequest(item.id);
+    }
+  };
+
+  const cancelAllAnalyses = () => {
+    items.filter(item => item.status === 'queued' || item.status === 'analysing').forEach(cancelItem);
+  };
+
+  const pickAlternative = <F extends MetadataField>(item: QueueItem, field: F, index: number) => {
+    const value = item.alternatives[field]?.[index];
+    if (value === undefined) return;
+    updateItem(item.id, { [field]: value, alternatives: { ...item.alternatives, [field]: undefined } });
+  };
+
+  const dismissAlternatives = (item: QueueItem, field: MetadataField) => {
+    updateItem(item.id, { alternatives: { ...item.alternatives, [field]: undefined } });
+  };
+
+  // Start queued analyses whenever a slot frees up
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'analysing').length;
+    const next = items.filter(item => item.status === 'queued').slice(0, MAX_CONCURRENT_ANALYSES - active);
+    next.forEach(analyseItem);
+  }, [items]);
+
+  // Release object URLs when the queue unmounts
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  useEffect(() => () => {
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    requestsRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const addFiles = (files: FileList | File[]) => {
+    const images = Array.from(files).filter(f => f.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setError(null);
+    const newItems: QueueItem[] = images.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'queued',
+      approved: false,
+      locale: language,
+      title: '',
+      description: '',
+      medium: '',
+      tags: [],
+      altText: '',
+      series,
+      notes,
+      alternatives: {},
+    }));
+    setItems(prev => [...prev, ...newItems]);
+
+    // Fingerprint in the background; a failure only means no duplicate warning
+    newItems.forEach(item => {
+      computePerceptualHash(item.file)
+        .then(hash => updateItem(item.id, { perceptualHash: hash }))
+        .catch(err => console.warn("Could not fingerprint image", err));
+    });
+  };
+
+  // Published works and earlier queue items that look like the same image
+  const findDuplicates = (item: QueueItem): string[] => {
+    if (!item.perceptualHash) return [];
+    const hash = item.perceptualHash;
+    const published = artworks
+      .filter(art => art.perceptualHash && isNearDuplicate(hash, art.perceptualHash))
+      .map(art => `"${art.title}" in the gallery`);
+    const queued = items
+      .slice(0, items.indexOf(item))
+      .filter(other => other.perceptualHash && isNearDuplicate(hash, other.perceptualHash))
+      .map(other => `${other.file.name} in this queue`);
+    return [...published, ...queued];
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addFiles(e.target.files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files) addFiles(e.dataTransfer.files);
+  };
+
+  const removeItem = (id: string) => {
+    cancelRequest(id);
+    setItems(prev => {
+      const item = prev.find(i => i.id === id);
+      if (item) URL.revokeObjectURL(item.previewUrl);
+      return prev.filter(i => i.id !== id);
+    });
+  };
+
+  const isDone = (item: QueueItem) => item.status === 'published' || item.status === 'offline';
+
+  const clearPublished = () => {
+    items.filter(isDone).forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems(prev => prev.filter(item => !isDone(item)));
+  };
+
+  // Processed images are kept in the browser and committed by the offline queue later
+  const queueOffline = async (uploads: { item: QueueItem; upload: ArtworkUpload }[]) => {
+    try {
+      await onQueueOffline(uploads.map(u => u.upload));
+      uploads.forEach(({ item }) => updateItem(item.id, { status: 'offline' }));
+    } catch (err: any) {
+      console.error(err);
+      uploads.forEach(({ item }) => updateItem(item.id, { status: 'failed', failedStep: 'publish', error: "You are offline and the batch could not be stored for later" }));
+    }
+  };
+
+  const publishItems = async (toPublish: QueueItem[]) => {
+    if (!canWrite(repoConfig)) {
+      setError("Storage credentials are missing. Please check Settings.");
+      return;
+    }
+    const scheduledAt = publishAs === 'scheduled' ? fromDateTimeLocal(publishAt) : undefined;
+    if (publishAs === 'scheduled' && (scheduledAt === undefined || scheduledAt <= Date.now())) {
+      setError("Choose a future date and time for scheduled artworks.");
+      return;
+    }
+
+    const duplicates = toPublish.filter(item => findDuplicates(item).length > 0);
+    if (duplicates.length > 0 && !window.confirm(
+      `${duplicates.length} of these ${duplicates.length === 1 ? 'looks' : 'look'} like a duplicate of an existing artwork. Publish anyway?`
+    )) {
+      return;
+    }
+
+    setIsPublishing(true);
+    setError(null);
+
+    // Resize and re-encode every file first; a file that cannot be processed is marked failed and left out of the commit
+    const uploads: { item: QueueItem; upload: ArtworkUpload }[] = [];
+    for (const [idx, item] of toPublish.entries()) {
+      setPublishStatus(`Processing image ${idx + 1} of ${toPublish.length}...`);
+      updateItem(item.id, { status: 'publishing', error: undefined, failedStep: undefined });
+      try {
+        const image = await processImage(item.file);
+        uploads.push({
+          item,
+          upload: {
+            file: item.file,
+            image,
+            artwork: {
+              id: item.id,
+              title: item.title,
+              description: item.description,
+              medium: item.medium,
+              tags: item.tags,
+              altText: item.altText.trim() || undefined,
+              createdAt: Date.now(),
+              perceptualHash: item.perceptualHash,
+              locale: item.locale,
+              status: publishAs,
+              publishAt: scheduledAt,
+              year: item.year,
+            },
+          },
+        });
+      } catch (err: any) {
+        console.error(err);
+        updateItem(item.id, { status: 'failed', failedStep: 'publish', error: err.message || "Failed to process image" });
+      }
+    }
+
+    if (uploads.length > 0 && !navigator.onLine) {
+      setPublishStatus('Saving for when you are back online...');
+      await queueOffline(uploads);
+    } else if (uploads.length > 0) {
+      // Images and manifest entries go into a single commit, so nothing is left half-published
+      setPublishStatus(`Committing ${uploads.length} ${uploads.length === 1 ? 'artwork' : 'artworks'}...`);
+      try {
+        const published = await publishArtworks(uploads.map(u => u.upload), repoConfig);
+        uploads.forEach(({ item }) => updateItem(item.id, { status: 'published' }));
+        onPublished();
+        // Runs in the background; the works are already live without it
+        indexPublishedArtworks(uploads.map(u => u.upload), published, repoConfig, curator);
+      } catch (err: any) {
+        console.error(err);
+        // Only a lost connection queues the batch; any other failure is shown so it can be fixed
+        if (!navigator.onLine) {
+          await queueOffline(uploads);
+        } else {
+          uploads.forEach(({ item }) => updateItem(item.id, { status: 'failed', failedStep: 'publish', error: err.message || "Failed to publish artwork" }));
+        }
+      }
+    }
+
+    setPublishStatus('');
+    setIsPublishing(false);
+  };
+
+  const retryItem = (item: QueueItem) => {
+    if (item.failedStep === 'publish') {
+      publishItems([item]);
+    } else {
+      updateItem(item.id, { status: 'queued', error: undefined, failedStep: undefined });
+    }
+  };
+
+  const approvedItems = items.filter(item => item.approved && item.status === 'draft' && item.title);
+  const hasPublished = items.some(isDone);
+  const pendingAnalyses = items.filter(item => item.status === 'queued' || item.status === 'analysing').length;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap justify-end gap-4">
+        <input
+          type="text"
+          value={series}
+          onChange={(e) => setSeries(e.target.value)}
+          className="px-3 py-1 border border-stone-300 rounded bg-white text-sm outline-none focus:border-stone-500"
+          placeholder="Series (optional)"
+          aria-label="Series of the next artworks"
+        />
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="flex-1 min-w-[12rem] px-3 py-1 border border-stone-300 rounded bg-white text-sm outline-none focus:border-stone-500"
+          placeholder="Notes for Gemini, e.g. painted on location in Lisbon"
+          aria-label="Notes for Gemini about the next artworks"
+        />
+        <label className="text-sm text-stone-600 flex items-center gap-2">
+          Write metadata in
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as Locale)}
+            className="px-3 py-1 border border-stone-300 rounded bg-white outline-none focus:border-stone-500"
+          >
+            {SUPPORTED_LOCALES.map(locale => (
+              <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 flex flex-col items-center justify-center text-center transition-colors min-h-[200px] cursor-pointer ${
+          isDragging ? 'border-stone-500 bg-stone-100' : 'border-stone-300 hover:border-stone-400 hover:bg-stone-50'
+        }`}
+        onClick={() => fileInputRef.current?.click()}
+        // Also reachable from the keyboard; the file input itself is hidden
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <div className="space-y-4">
+          <div className="w-16 h-16 bg-stone-100 rounded-full flex items-center justify-center mx-auto text-stone-400">
+            <svg aria-hidden="true" className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+          </div>
+          <div>
+            <p className="text-lg font-medium text-stone-900">Drop artworks here or click to select</p>
+            <p className="text-sm text-stone-500">Select several JPG or PNG files at once. Each is analysed by Gemini, using the series and notes above.</p>
+            {metadataProviderKind() === 'mock' && (
+              <p className="text-xs text-amber-700 mt-2">Offline mock provider: titles and descriptions are placeholder text (METADATA_PROVIDER=mock).</p>
+            )}
+          </div>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-lg border border-stone-200 sticky top-24 z-10 shadow-sm">
+          <p className="text-sm text-stone-600">
+            {items.length} in queue · {items.filter(i => i.status === 'draft').length} drafts · {approvedItems.length} approved
+            {publishStatus && <span className="ml-2 text-stone-900 font-medium">{publishStatus}</span>}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={publishAs}
+              onChange={(e) => setPublishAs(e.target.value as ArtworkStatus)}
+              disabled={isPublishing}
+              className="px-3 py-2 border border-stone-300 rounded bg-white text-sm outline-none focus:border-stone-500"
+              aria-label="Visibility of published artworks"
+            >
+              {ARTWORK_STATUSES.map(status => (
+                <option key={status} value={status}>{ARTWORK_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            {publishAs === 'scheduled' && (
+              <input
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                disabled={isPublishing}
+                className="px-3 py-2 border border-stone-300 rounded bg-white text-sm outline-none focus:border-stone-500"
+                aria-label="Publish at"
+              />
+            )}
+            {pendingAnalyses > 0 && (
+              <button
+                onClick={cancelAllAnalyses}
+                className="px-4 py-2 text-sm text-stone-600 hover:text-stone-900"
+              >
+                Cancel {pendingAnalyses} {pendingAnalyses === 1 ? 'analysis' : 'analyses'}
+              </button>
+            )}
+            {hasPublished && (
+              <button
+                onClick={clearPublished}
+                className="px-4 py-2 text-sm text-stone-600 hover:text-stone-900"
+              >
+                Clear published
+              </button>
+            )}
+            <button
+              onClick={() => publishItems(approvedItems)}
+              disabled={isPublishing || approvedItems.length === 0}
+              className="px-6 py-2 bg-stone-900 text-white font-serif tracking-wide rounded hover:bg-stone-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isPublishing
+                ? 'Publishing...'
+                : !isOnline
+                  ? `Queue ${approvedItems.length} until online`
+                  : publishAs === 'published'
+                  ? `Publish ${approvedItems.length} to Gallery`
+                  : `Commit ${approvedItems.length} as ${ARTWORK_STATUS_LABELS[publishAs].toLowerCase()}`}
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+      <div className="space-y-6">
+        {items.map(item => {
+          const isEditable = item.status === 'draft' || (item.status === 'failed' && item.failedStep === 'publish');
+          const duplicates = isDone(item) ? [] : findDuplicates(item);
+          const canRegenerate = item.status === 'draft';
+          const fieldLabel = (label: string, field: MetadataField) => (
+            <FieldLabel
+              label={label}
+              field={field}
+              item={item}
+              canRegenerate={canRegenerate}
+              onRegenerate={(f) => regenerateField(item, f)}
+              onCancel={() => cancelRequest(item.id)}
+            />
+          );
+          return (
+            <div key={item.id} className="bg-white rounded-lg shadow-sm border border-stone-200 grid grid-cols-1 md:grid-cols-3 overflow-hidden">
+              <div className="bg-stone-100 flex items-center justify-center p-4 relative">
+                <img src={item.previewUrl} alt={item.altText || item.file.name} className="max-h-64 object-contain shadow" />
+                <span className={`absolute top-3 left-3 px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                  {STATUS_LABELS[item.status]}
+                </span>
+              </div>
+              <div className="md:col-span-2 p-6 space-y-4">
+                <div className="flex justify-between items-start gap-4">
+                  <p className="text-xs text-stone-500 font-mono truncate">{item.file.name}</p>
+                  <div className="flex gap-3 text-xs font-medium flex-shrink-0">
+                    {item.status === 'failed' && (
+                      <button onClick={() => retryItem(item)} disabled={isPublishing} className="text-stone-900 hover:underline disabled:opacity-50">
+                        Retry {item.failedStep === 'publish' ? 'publish' : 'analysis'}
+                      </button>
+                    )}
+                    {item.status === 'draft' && (
+                      <button onClick={() => updateItem(item.id, { status: 'queued' })} className="text-stone-600 hover:text-stone-900">
+                        Re-analyse
+                      </button>
+                    )}
+                    {(item.status === 'queued' || item.status === 'analysing') && (
+                      <button onClick={() => cancelItem(item)} className="text-stone-600 hover:text-stone-900">
+                        Cancel
+                      </button>
+                    )}
+                    {item.status !== 'publishing' && item.status !== 'analysing' && (
+                      <button onClick={() => removeItem(item.id)} className="text-red-600 hover:text-red-800">
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {item.error && <p className="text-red-500 text-sm">{item.error}</p>}
+                {duplicates.length > 0 && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-sm">
+                    <strong>Possible duplicate:</strong> looks like {duplicates.join(', ')}.
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                  <div className="sm:col-span-2">
+                    {fieldLabel('Title', 'title')}
+                    <input
+                      type="text"
+                      value={item.title}
+                      disabled={!isEditable}
+                      onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                      className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none disabled:bg-stone-50 disabled:text-stone-400"
+                      placeholder="Untitled"
+                    />
+                    {item.alternatives.title && (
+                      <Alternatives options={item.alternatives.title} onPick={(idx) => pickAlternative(item, 'title', idx)} onDismiss={() => dismissAlternatives(item, 'title')} />
+                    )}
+                  </div>
+                  <div>
+                    {fieldLabel('Medium', 'medium')}
+                    <input
+                      type="text"
+                      value={item.medium}
+                      disabled={!isEditable}
+                      onChange={(e) => updateItem(item.id, { medium: e.target.value })}
+                      className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none disabled:bg-stone-50 disabled:text-stone-400"
+                      placeholder="e.g. Oil on Canvas"
+                    />
+                    {item.alternatives.medium && (
+                      <Alternatives options={item.alternatives.medium} onPick={(idx) => pickAlternative(item, 'medium', idx)} onDismiss={() => dismissAlternatives(item, 'medium')} />
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-1">Year</label>
+                    <input
+                      type="number"
+                      value={item.year ?? ''}
+                      disabled={!isEditable}
+                      onChange={(e) => updateItem(item.id, { year: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                      className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none disabled:bg-stone-50 disabled:text-stone-400"
+                      placeholder="Unknown"
+                    />
+                  </div>
+                </div>
+                <div>
+                  {fieldLabel('Curatorial Description', 'description')}
+                  <textarea
+                    value={item.description}
+                    disabled={!isEditable}
+                    onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                    rows={3}
+                    className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none disabled:bg-stone-50 disabled:text-stone-400"
+                    placeholder="Generated description will appear here..."
+                  />
+                  {item.alternatives.description && (
+                    <Alternatives options={item.alternatives.description} onPick={(idx) => pickAlternative(item, 'description', idx)} onDismiss={() => dismissAlternatives(item, 'description')} />
+                  )}
+                </div>
+                <div>
+                  {fieldLabel('Alt Text', 'altText')}
+                  <textarea
+                    value={item.altText}
+                    disabled={!isEditable}
+                    onChange={(e) => updateItem(item.id, { altText: e.target.value })}
+                    rows={2}
+                    className="w-full px-4 py-2 border border-stone-300 rounded focus:ring-1 focus:ring-stone-500 focus:border-stone-500 outline-none disabled:bg-stone-50 disabled:text-stone-400 text-sm"
+                    placeholder="What the picture shows, for visitors using a screen reader"
+                  />
+                  {item.alternatives.altText && (
+                    <Alternatives
+                      options={item.alternatives.altText as string[]}
+                      onPick={(idx) => pickAlternative(item, 'altText', idx)}
+                      onDismiss={() => dismissAlternatives(item, 'altText')}
+                    />
+                  )}
+                </div>
+                <div>
+                  {fieldLabel('Tags', 'tags')}
+                  <TagEditor tags={item.tags} disabled={!isEditable} onChange={(tags) => updateItem(item.id, { tags })} />
+                  {item.alternatives.tags && (
+                    <Alternatives options={item.alternatives.tags.map(tags => tags.join(', '))} onPick={(idx) => pickAlternative(item, 'tags', idx)} onDismiss={() => dismissAlternatives(item, 'tags')} />
+                  )}
+                </div>
+                {(item.status === 'draft' || (item.status === 'failed' && item.failedStep === 'analyse')) && (
+                  <details className="text-sm" open={Boolean(item.series || item.notes)}>
+                    <summary className="cursor-pointer text-stone-500 hover:text-stone-900">Context for Gemini</summary>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-3">
+                      <input
+                        type="text"
+                        value={item.series}
+                        onChange={(e) => updateItem(item.id, { series: e.target.value })}
+                        className="px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
+                        placeholder="Series"
+                        aria-label="Series"
+                      />
+                      <input
+                        type="text"
+                        value={item.notes}
+                        onChange={(e) => updateItem(item.id, { notes: e.target.value })}
+                        className="sm:col-span-2 px-4 py-2 border border-stone-300 rounded outline-none focus:border-stone-500"
+                        placeholder="Your notes on this work"
+                        aria-label="Your notes on this work"
+                      />
+                    </div>
+                    <p className="text-xs text-stone-500 mt-2">Used, together with the year, by Re-analyse and the alternatives.</p>
+                  </details>
+                )}
+
+                {item.status === 'draft' && (
+                  <label className="flex items-center gap-2 pt-2 border-t border-stone-100 text-sm text-stone-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={item.approved}
+                      disabled={!item.title}
+                      onChange={(e) => updateItem(item.id, { approved: e.target.checked })}
+                      className="accent-stone-900"
+                    />
+                    Approve for publishing
+                  </label>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {items.length > 0 && (
+        <p className="text-stone-500 text-xs text-center">Note: Public updates may take up to 5 mins to appear.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Artwork } from '../types';
+import { ArtworkImage } from './ArtworkImage';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 6;
+const DOUBLE_TAP_SCALE = 2.5;
+// Horizontal travel (px) that counts as a swipe when not zoomed
+const SWIPE_DISTANCE = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+interface ZoomableImageProps {
+  artwork: Artwork;
+  alt: string;
+  className?: string;
+  onSwipe?: (direction: 'next' | 'previous') => void;
+  labels: { zoomIn: string; zoomOut: string; resetZoom: string };
+}
+
+// Wheel or pinch to zoom, drag to pan, double-click to toggle. Once zoomed, the largest
+// rendition is requested so brushwork stays sharp. Remount (key) to reset per artwork.
+export const ZoomableImage: React.FC<ZoomableImageProps> = ({ artwork, alt, className, onSwipe, labels }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  // Active pointers, for panning with one finger/mouse and pinching with two
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<{ startX: number; startY: number; pinchDistance?: number } | null>(null);
+  // Transitions are switched off while a finger or mouse is moving the image
+  const [isGesturing, setIsGesturing] = useState(false);
+  const isZoomed = transform.scale > 1;
+
+  // Keeps the image covering the viewport edges it can reach, so it cannot be dragged away
+  const constrain = (next: Transform): Transform => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || next.scale <= 1) return IDENTITY;
+    const maxX = (rect.width * (next.scale - 1)) / 2;
+    const maxY = (rect.height * (next.scale - 1)) / 2;
+    return { scale: next.scale, x: clamp(next.x, -maxX, maxX), y: clamp(next.y, -maxY, maxY) };
+  };
+
+  // Zooms keeping the point under (clientX, clientY) fixed
+  const zoomAt = (scaleFrom: (scale: number) => number, clientX?: number, clientY?: number) => {
+    setTransform(prev => {
+      const nextScale = clamp(scaleFrom(prev.scale), MIN_SCALE, MAX_SCALE);
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect || clientX === undefined || clientY === undefined) {
+        return constrain({ ...prev, scale: nextScale });
+      }
+      const px = clientX - rect.left - rect.width / 2;
+      const py = clientY - rect.top - rect.height / 2;
+      const ratio = nextScale / prev.scale;
+      return constrain({ scale: nextScale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio });
+    });
+  };
+
+  // React registers wheel listeners as passive, so preventing page scroll needs a native listener
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(scale => scale * Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const pinchDistance = () => {
+    const [a, b] = Array.from<Point>(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    gesture.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      pinchDistance: pointers.current.size === 2 ? pinchDistance() : undefined,
+    };
+    setIsGesturing(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2 && gesture.current.pinchDistance) {
+      const distance = pinchDistance();
+      const ratio = distance / gesture.current.pinchDistance;
+      const [a, b] = Array.from<Point>(pointers.current.values());
+      zoomAt(scale => scale * ratio, (a.x + b.x) / 2, (a.y + b.y) / 2);
+      gesture.current.pinchDistance = distance;
+    } else if (isZoomed) {
+      const dx = e.clientX - previous.x;
+      const dy = e.clientY - previous.y;
+      setTransform(prev => constrain({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const current = gesture.current;
+    const wasPinch = pointers.current.size > 1;
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size > 0) return;
+    gesture.current = null;
+    setIsGesturing(false);
+
+    if (!current || wasPinch || isZoomed || !onSwipe) return;
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * 1.5) {
+      onSwipe(dx < 0 ? 'next' : 'previous');
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (isZoomed) setTransform(IDENTITY);
+    else zoomAt(() => DOUBLE_TAP_SCALE, e.clientX, e.clientY);
+  };
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center overflow-hidden">
+      <div
+        ref={containerRef}
+        className={`w-full h-full flex items-center justify-center touch-none select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        <div
+          style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+          className={`flex items-center justify-center w-full h-full ${isGesturing ? '' : 'transition-transform duration-150'}`}
+        >
+          <ArtworkImage
+            artwork={artwork}
+            alt={alt}
+            sizes={isZoomed ? '2048px' : '(min-width: 768px) 66vw, 100vw'}
+            className={`pointer-events-none ${className || ''}`}
+          />
+        </div>
+      </div>
+      <div className="absolute bottom-3 right-3 flex gap-1">
+        <button
+          onClick={() => zoomAt(scale => scale * 1.5)}
+          disabled={transform.scale >= MAX_SCALE}
+          className="w-8 h-8 rounded bg-white/80 text-stone-700 hover:bg-white disabled:opacity-40 shadow"
+          aria-label={labels.zoomIn}
+        >
+          +
+        </button>
+        <button
+          onClick={() => zoomAt(scale => scale / 1.5)}
+          disabled={!isZoomed}
+          className="w-8 h-8 rounded bg-white/80 text-stone-700 hover:bg-white disabled:opacity-40 shadow"
+          aria-label={labels.zoomOut}
+        >
+          −
+        </button>
+        {isZoomed && (
+          <button
+            onClick={() => setTransform(IDENTITY)}
+            className="px-2 h-8 rounded bg-white/80 text-stone-700 hover:bg-white shadow text-xs"
+          >
+            {labels.resetZoom}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
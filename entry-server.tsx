@@ -0,0 +1,104 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import App from './App';
+import { Artwork, Locale, PrerenderedData, SiteSettings, ViewMode } from './types';
+import { Route } from './services/router';
+import { parseManifest } from './services/manifest';
+import { parseProfile } from './services/schema';
+import { isPubliclyVisible } from './services/artworkStatus';
+import { DEFAULT_CONTENT_LOCALE, mainSourceLocale, sourceLocaleOf } from './services/i18n';
+import { resolvePublicConfigAtBuild } from './services/siteConfig';
+import { PRERENDERED_DATA_ID } from './services/prerender';
+import { PageMeta, aboutPageMeta, artworkPageMeta, escapeScriptJson, homePageMeta, renderHeadTags, sitemapXml } from './services/seo';
+
+// ----------------------------------------------------------------------
+// Build-time rendering of the public pages, loaded by the prerender plugin
+// in vite.config.ts after `vite build`. The home page, the about page and
+// every published artwork get their own HTML with head tags for search
+// engines and link previews; the app hydrates on top of it in the browser.
+// ----------------------------------------------------------------------
+
+export interface PrerenderSource {
+  // Parsed gallery.json, profile.json, settings.json and public/site-config.json; null when missing
+  gallery: unknown;
+  profile: unknown;
+  settings: unknown;
+  siteConfig: unknown;
+  // Where the site will be served, e.g. https://octocat.github.io/my-art/. Without it pages get
+  // no canonical link or og:url and no sitemap is written.
+  siteUrl?: string;
+}
+
+export interface PrerenderedFile {
+  // Relative to the build output, e.g. "artwork/<id>/index.html"
+  path: string;
+  contents: string;
+}
+
+interface PageSpec {
+  route: Route;
+  meta: PageMeta;
+  // The page is rendered in it, and the app hydrates in it before switching to the visitor's language
+  locale: Locale;
+}
+
+const renderPage = (
+  template: string,
+  { route, meta, locale }: PageSpec,
+  data: Omit<PrerenderedData, 'path' | 'locale'>,
+  siteUrl?: string
+): PrerenderedFile => {
+  const snapshot: PrerenderedData = { ...data, locale, path: meta.path };
+  const markup = renderToString(
+    <React.StrictMode>
+      <App prerendered={snapshot} initialRoute={route} />
+    </React.StrictMode>
+  );
+  const html = template
+    .replace(/<html lang="[^"]*"/, meta.language ? `<html lang="${meta.language}"` : '<html')
+    .replace(/<title>[^<]*<\/title>/, renderHeadTags(meta, siteUrl))
+    .replace(
+      '<div id="root"></div>',
+      `<div id="root">${markup}</div>\n    <script id="${PRERENDERED_DATA_ID}" type="application/json">${escapeScriptJson(snapshot)}</script>`
+    );
+  return { path: `${meta.path}index.html`, contents: html };
+};
+
+// `template` is the built index.html; the returned files replace it and are written next to it.
+// Returns nothing when it cannot tell where visitors will read the gallery from, since the
+// pages would then hydrate into the "Setup Required" notice.
+export const prerenderSite = (template: string, source: PrerenderSource): PrerenderedFile[] => {
+  const resolved = resolvePublicConfigAtBuild(source.siteConfig, source.siteUrl);
+  if (!resolved) return [];
+
+  const manifest = parseManifest(source.gallery);
+  // Drafts, hidden and not-yet-scheduled works must not end up in static files
+  const artworks = manifest.artworks.filter(art => isPubliclyVisible(art));
+  // Pages are written in the language the artist wrote in, so search engines index the original
+  // text rather than a translation; visitors' own language applies after hydration. Entries from
+  // before languages were recorded render as before but claim no language in the markup.
+  const language = mainSourceLocale(artworks);
+  const locale = language || DEFAULT_CONTENT_LOCALE;
+  const profile = parseProfile(source.profile);
+  const settings = (source.settings && typeof source.settings === 'object' ? source.settings : {}) as SiteSettings;
+  const data: Omit<PrerenderedData, 'path' | 'locale'> = {
+    config: resolved.config,
+    manifest: { artworks, collections: manifest.collections },
+    profile,
+    settings,
+  };
+
+  const pages: PageSpec[] = [
+    { route: { view: ViewMode.HOME }, meta: homePageMeta(profile, artworks, language, source.siteUrl), locale },
+    { route: { view: ViewMode.ABOUT }, meta: aboutPageMeta(profile, locale, language, source.siteUrl), locale },
+    // Each artwork in its own source language, which may differ from the rest of the collection
+    ...artworks.map((art: Artwork): PageSpec => ({
+      route: { view: ViewMode.GALLERY, artworkId: art.id },
+      meta: artworkPageMeta(art, art.locale, source.siteUrl),
+      locale: sourceLocaleOf(art),
+    })),
+  ];
+  const files = pages.map(page => renderPage(template, page, data, source.siteUrl));
+  if (source.siteUrl) files.push({ path: 'sitemap.xml', contents: sitemapXml(pages.map(page => page.meta), source.siteUrl) });
+  return files;
+};
@@ -1,15 +1,28 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/pwa';
+import { parseLocation } from './services/router';
+import { prerenderedPathOf, readPrerenderedData } from './services/prerender';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
+const prerendered = readPrerenderedData();
+const app = (
   <React.StrictMode>
-    <App />
+    <App prerendered={prerendered || undefined} />
   </React.StrictMode>
 );
+
+// Hydrate the static HTML when it shows the current route. A hash link such as #/gallery opened
+// on the pre-rendered home page is rendered afresh, still starting from the embedded snapshot.
+if (prerendered && prerenderedPathOf(parseLocation(window.location)) === prerendered.path) {
+  ReactDOM.hydrateRoot(rootElement, app);
+} else {
+  ReactDOM.createRoot(rootElement).render(app);
+}
+
+registerServiceWorker();
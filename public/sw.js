@@ -0,0 +1,152 @@
+// MuseAI Gallery service worker.
+// - Gallery data (gallery.json, profile.json, settings.json, embeddings.json) and published image
+//   variants on raw.githubusercontent.com are served stale-while-revalidate, so the gallery opens instantly
+//   and keeps working offline. When revalidated data differs, open pages are told to reload it.
+// - The app shell (HTML, bundled scripts, Tailwind, fonts, CDN modules) is cached so the site
+//   itself starts without a connection.
+// - The GitHub API is never cached: it carries the artist's token and must reflect the repo.
+
+// Bumped to v2 to drop opaque image responses cached by earlier versions
+const VERSION = 'v2';
+const SHELL_CACHE = `museai-shell-${VERSION}`;
+const DATA_CACHE = `museai-data-${VERSION}`;
+const IMAGE_CACHE = `museai-images-${VERSION}`;
+const CACHES = [SHELL_CACHE, DATA_CACHE, IMAGE_CACHE];
+
+// Enough for a large portfolio at a couple of widths without filling the device
+const MAX_IMAGE_ENTRIES = 400;
+
+const DATA_FILES = ['gallery.json', 'profile.json', 'settings.json', 'embeddings.json'];
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(['./', './index.html', './manifest.webmanifest']))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('museai-') && !CACHES.includes(key)).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The app appends ?t=<timestamp> to bypass the raw CDN's cache; drop it so every
+// load shares one cache entry
+const dataCacheKey = (url) => {
+  const key = new URL(url);
+  key.searchParams.delete('t');
+  return key.toString();
+};
+
+const isDataFile = (url) =>
+  url.hostname === 'raw.githubusercontent.com' && DATA_FILES.some(file => url.pathname.endsWith(`/${file}`));
+
+const isImageVariant = (url) =>
+  url.hostname === 'raw.githubusercontent.com' && url.pathname.includes('/images/');
+
+// Same-origin files of the site itself: inside the worker's scope, which is the base path the
+// site is served under (e.g. /my-art/), and not an API call. API routes are excluded both under
+// the scope and at the root, where the dev server mounts them whatever the base path.
+const isSiteAsset = (url) => {
+  const scope = new URL(self.registration.scope);
+  return url.origin === scope.origin
+    && url.pathname.startsWith(scope.pathname)
+    && !url.pathname.startsWith(`${scope.pathname}api/`)
+    && !url.pathname.startsWith('/api/');
+};
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  // Keys come back in insertion order, so the oldest entries go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Options: `onUpdated` is called when a revalidated copy differs from the cached one,
+// `request` replaces the page's request, and `cacheOpaque` keeps no-cors answers too
+const staleWhileRevalidate = async (event, cacheName, cacheKey, { onUpdated, request = event.request, cacheOpaque = false } = {}) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(cacheKey);
+
+  const revalidate = fetch(request)
+    .then(async (response) => {
+      if (response.ok || (cacheOpaque && response.type === 'opaque')) {
+        if (onUpdated && cached) {
+          const [previous, next] = await Promise.all([cached.clone().text(), response.clone().text()]);
+          await cache.put(cacheKey, response.clone());
+          if (previous !== next) onUpdated();
+        } else {
+          await cache.put(cacheKey, response.clone());
+        }
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(revalidate.catch(() => {
+      // Offline: the cached copy has already been served
+    }));
+    return cached;
+  }
+  return revalidate;
+};
+
+// Network first for pages so a new deploy is picked up; the cached shell is the offline fallback
+const networkFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request) || await cache.match('./index.html');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isDataFile(url)) {
+    event.respondWith(staleWhileRevalidate(event, DATA_CACHE, dataCacheKey(request.url), {
+      onUpdated: () => notifyClients({ type: 'gallery-data-updated', file: url.pathname.split('/').pop() }),
+    }));
+    return;
+  }
+
+  if (isImageVariant(url)) {
+    // <img> asks without CORS and would get an opaque answer, which could be an error page and
+    // counts against the storage quota as several megabytes. raw.githubusercontent.com allows
+    // CORS, so the worker fetches in cors mode and caches only real images.
+    event.respondWith(staleWhileRevalidate(event, IMAGE_CACHE, request.url, {
+      request: new Request(request.url, { mode: 'cors', credentials: 'omit' }),
+    }));
+    event.waitUntil(trimCache(IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (isSiteAsset(url) || SHELL_HOSTS.includes(url.hostname)) {
+    // The Tailwind script is loaded without CORS; caching its opaque answer keeps the site styled offline
+    event.respondWith(staleWhileRevalidate(event, SHELL_CACHE, request, { cacheOpaque: true }));
+  }
+});
@@ -0,0 +1,35 @@
+import { Artwork, ArtworkStatus } from '../types';
+
+export const ARTWORK_STATUSES: ArtworkStatus[] = ['published', 'scheduled', 'draft', 'hidden'];
+
+export const statusOf = (art: Artwork): ArtworkStatus => art.status || 'published';
+
+// Drafts and hidden works stay in gallery.json (so they sync between devices) but are
+// left out of every public view. Scheduled works appear once their time has come.
+export const isPubliclyVisible = (art: Artwork, now: number = Date.now()): boolean => {
+  const status = statusOf(art);
+  if (status === 'scheduled') return art.publishAt !== undefined && art.publishAt <= now;
+  return status === 'published';
+};
+
+// Earliest future publishAt among scheduled works, so the site can reveal them on time
+export const nextScheduledAt = (artworks: Artwork[], now: number = Date.now()): number | undefined => {
+  const upcoming = artworks
+    .filter(art => statusOf(art) === 'scheduled' && art.publishAt !== undefined && art.publishAt > now)
+    .map(art => art.publishAt!);
+  return upcoming.length > 0 ? Math.min(...upcoming) : undefined;
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeLocal = (timestamp?: number): string => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeLocal = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+};
@@ -0,0 +1,67 @@
+import { EncryptedToken } from '../types';
+
+// The GitHub token never touches localStorage in plain text. It is encrypted with
+// AES-GCM under a key derived (PBKDF2) from a passphrase the artist enters each session.
+
+const PBKDF2_ITERATIONS = 250000;
+
+const bytesToB64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return window.btoa(binary);
+};
+
+const b64ToBytes = (str: string): Uint8Array<ArrayBuffer> => {
+  const binary = window.atob(str);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptToken = async (token: string, passphrase: string): Promise<EncryptedToken> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(token)
+  );
+  return {
+    salt: bytesToB64(salt),
+    iv: bytesToB64(iv),
+    ciphertext: bytesToB64(new Uint8Array(ciphertext)),
+  };
+};
+
+export const decryptToken = async (encrypted: EncryptedToken, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, b64ToBytes(encrypted.salt));
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: b64ToBytes(encrypted.iv) },
+      key,
+      b64ToBytes(encrypted.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (e) {
+    // AES-GCM authentication fails when the passphrase is wrong
+    throw new Error("Incorrect passphrase");
+  }
+};
@@ -0,0 +1,42 @@
+import { Artwork, ArtworkDimensions, Availability, Edition, Locale, Price } from '../types';
+import { UiStrings } from './i18n';
+
+export const AVAILABILITIES: Availability[] = ['available', 'reserved', 'sold', 'not_for_sale'];
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'];
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+const formatNumber = (value: number, locale: Locale) =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(value);
+
+// Height before width, as galleries list them: "60 × 80 × 4 cm"
+export const formatDimensions = (dimensions: ArtworkDimensions, locale: Locale): string => {
+  const parts = [dimensions.height, dimensions.width, dimensions.depth]
+    .filter((n): n is number => n !== undefined)
+    .map(n => formatNumber(n, locale));
+  return `${parts.join(' × ')} ${dimensions.unit}`;
+};
+
+export const formatPrice = (price: Price, locale: Locale): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: price.currency, maximumFractionDigits: 0 }).format(price.amount);
+  } catch {
+    // Unknown currency codes are shown as typed
+    return `${formatNumber(price.amount, locale)} ${price.currency}`;
+  }
+};
+
+export const formatEdition = (edition: Edition, t: UiStrings): string =>
+  edition.number ? t.editionOf(edition.number, edition.size) : t.editionSize(edition.size);
+
+export const availabilityLabel = (availability: Availability, t: UiStrings): string => ({
+  available: t.available,
+  reserved: t.reserved,
+  sold: t.sold,
+  not_for_sale: t.notForSale,
+})[availability];
+
+// Prices are only published while the work can still be bought
+export const visiblePrice = (art: Artwork): Price | undefined =>
+  art.price && (art.availability || 'available') === 'available' ? art.price : undefined;
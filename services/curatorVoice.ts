@@ -0,0 +1,94 @@
+import { ArtworkContext, CuratorSettings, CuratorVoicePreset, Locale } from '../types';
+import { LOCALE_NAMES } from './i18n';
+
+// ----------------------------------------------------------------------
+// The curator's voice: which model writes placard text, in what tone and
+// from which prompt. Kept in settings.json so every device of the studio
+// writes the same way.
+// ----------------------------------------------------------------------
+
+export const DEFAULT_CURATOR_MODEL = "gemini-2.5-flash";
+export const DEFAULT_TAG_COUNT = 5;
+export const MAX_TAG_COUNT = 15;
+
+// Models offered in the settings; any other model name can still be typed in
+export const CURATOR_MODELS = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"];
+
+export const CURATOR_VOICES: Record<CuratorVoicePreset, { label: string; instruction: string }> = {
+  elegant: {
+    label: 'Elegant',
+    instruction: "You are a professional art curator. Your tone is elegant, insightful, and concise. Avoid generic phrases like 'This image shows'. Focus on emotions, lighting, and composition.",
+  },
+  poetic: {
+    label: 'Poetic',
+    instruction: "You are a curator with a poet's ear. Write lyrical, evocative text rich in imagery and rhythm, but never vague. Avoid generic phrases like 'This image shows'. Let colour, light and atmosphere carry the mood.",
+  },
+  scholarly: {
+    label: 'Scholarly',
+    instruction: "You are an art historian writing museum labels. Be precise and informative: technique, composition, art-historical references and context. Avoid generic phrases like 'This image shows' and unsupported claims about the artist's intent.",
+  },
+  plain: {
+    label: 'Plain',
+    instruction: "You write clear, friendly gallery text for a general audience. Use short sentences and everyday words, no art jargon. Say what can be seen and what makes the work worth a second look.",
+  },
+  playful: {
+    label: 'Playful',
+    instruction: "You are a curator with a sense of humour. Write warm, witty text that invites visitors in, without becoming silly. Avoid generic phrases like 'This image shows'.",
+  },
+};
+
+export const DEFAULT_PROMPT_TEMPLATE =
+  "You are an expert art curator. Analyze this artwork and generate metadata for the portfolio website. Write every field in {{language}}.{{context}}";
+
+// Placeholders a prompt template may use, with what they are replaced by
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+  language: 'The language the metadata is written in',
+  tagCount: 'How many tags to suggest',
+  series: 'The series name the artist entered, or nothing',
+  year: 'The year the artist entered, or nothing',
+  notes: "The artist's notes, or nothing",
+  context: 'Series, year and notes as a paragraph, or nothing when none were given',
+};
+
+export const DEFAULT_CURATOR_SETTINGS: CuratorSettings = { voice: 'elegant' };
+
+export const curatorModel = (settings: CuratorSettings = DEFAULT_CURATOR_SETTINGS): string =>
+  settings.model?.trim() || DEFAULT_CURATOR_MODEL;
+
+export const curatorTagCount = (settings: CuratorSettings = DEFAULT_CURATOR_SETTINGS): number => {
+  const count = settings.tagCount ?? DEFAULT_TAG_COUNT;
+  return Number.isInteger(count) && count >= 1 ? Math.min(count, MAX_TAG_COUNT) : DEFAULT_TAG_COUNT;
+};
+
+// A custom voice without an instruction falls back to the default one rather than to none
+export const curatorInstruction = (settings: CuratorSettings = DEFAULT_CURATOR_SETTINGS): string =>
+  settings.voice === 'custom'
+    ? settings.systemInstruction?.trim() || CURATOR_VOICES.elegant.instruction
+    : CURATOR_VOICES[settings.voice]?.instruction || CURATOR_VOICES.elegant.instruction;
+
+// Unknown placeholders are left as typed, so a typo shows up in the output instead of vanishing
+export const renderPromptTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => key in values ? values[key] : match);
+
+const describeContext = (context: ArtworkContext): string => {
+  const lines = [
+    context.series?.trim() && `It belongs to the series "${context.series.trim()}".`,
+    context.year && `It was made in ${context.year}.`,
+    context.notes?.trim() && `The artist's own notes on it: ${context.notes.trim()}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n\nWhat the artist tells you about this work (trust it over what you see):\n${lines.join('\n')}` : '';
+};
+
+export const curatorPrompt = (
+  settings: CuratorSettings,
+  language: Locale,
+  context: ArtworkContext = {}
+): string =>
+  renderPromptTemplate(settings.promptTemplate?.trim() || DEFAULT_PROMPT_TEMPLATE, {
+    language: LOCALE_NAMES[language],
+    tagCount: String(curatorTagCount(settings)),
+    series: context.series?.trim() || '',
+    year: context.year ? String(context.year) : '',
+    notes: context.notes?.trim() || '',
+    context: describeContext(context),
+  });
@@ -0,0 +1,58 @@
+import { Artwork, Collection, GalleryFilters, GallerySort } from '../types';
+
+export const DEFAULT_SORT: GallerySort = 'curated';
+
+export const SORT_OPTIONS: GallerySort[] = ['curated', 'newest', 'oldest', 'title', 'medium'];
+
+// Lowercase and strip accents so "vogel" matches "Vögel" and "acryl" matches "Acryl"
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const searchableText = (art: Artwork): string =>
+  normalize([art.title, art.description, art.medium, ...art.tags].join(' '));
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+// 'curated' has no comparator: the input order already is the curated order
+const SORTERS: Record<Exclude<GallerySort, 'curated'>, (a: Artwork, b: Artwork) => number> = {
+  newest: (a, b) => b.createdAt - a.createdAt,
+  oldest: (a, b) => a.createdAt - b.createdAt,
+  title: (a, b) => compareText(a.title, b.title),
+  medium: (a, b) => compareText(a.medium, b.medium) || compareText(a.title, b.title),
+};
+
+// Members of a collection, in the collection's own order
+export const collectionArtworks = (artworks: Artwork[], collection: Collection): Artwork[] => {
+  const byId = new Map(artworks.map(art => [art.id, art]));
+  return collection.artworkIds.map(id => byId.get(id)).filter((art): art is Artwork => Boolean(art));
+};
+
+// The artworks listed in `rankedIds`, in that order; used for search by meaning
+export const orderByRanking = (artworks: Artwork[], rankedIds: string[]): Artwork[] => {
+  const byId = new Map(artworks.map(art => [art.id, art]));
+  return rankedIds.map(id => byId.get(id)).filter((art): art is Artwork => Boolean(art));
+};
+
+// Every search word must appear somewhere in title, description, medium or tags.
+// A collection that does not exist (deleted, or a mistyped link) matches nothing.
+export const filterArtworks = (
+  artworks: Artwork[],
+  filters: GalleryFilters,
+  collections: Collection[] = []
+): Artwork[] => {
+  const words = normalize(filters.query || '').split(/\s+/).filter(Boolean);
+  const tag = filters.tag ? normalize(filters.tag) : null;
+  const collection = filters.collection ? collections.find(col => col.id === filters.collection) : undefined;
+  if (filters.collection && !collection) return [];
+  const source = collection ? collectionArtworks(artworks, collection) : artworks;
+
+  const filtered = source.filter(art => {
+    if (tag && !art.tags.some(t => normalize(t) === tag)) return false;
+    if (words.length === 0) return true;
+    const text = searchableText(art);
+    return words.every(word => text.includes(word));
+  });
+
+  const sort = filters.sort || DEFAULT_SORT;
+  return sort === 'curated' ? filtered : [...filtered].sort(SORTERS[sort]);
+};
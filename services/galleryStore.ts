@@ -0,0 +1,354 @@
+import { Artwork, Collection, GalleryManifest, GalleryStore, Profile, PublicSiteConfig, RepoConfig, SiteSettings, StorageBackend, StoreFileChanges } from '../types';
+import { ProcessedImage } from './imageService';
+import { EMPTY_MANIFEST } from './manifest';
+import { createGitHubStore } from './githubService';
+import { createLocalStore } from './localStore';
+import { createS3Store } from './s3Store';
+
+// ----------------------------------------------------------------------
+// Gallery operations, independent of where the files live. Each call
+// resolves the configured GalleryStore; components never talk to a
+// backend directly.
+// ----------------------------------------------------------------------
+
+const STORES: Record<StorageBackend, (config: RepoConfig) => GalleryStore> = {
+  github: createGitHubStore,
+  local: createLocalStore,
+  s3: createS3Store,
+};
+
+export const STORAGE_BACKEND_LABELS: Record<StorageBackend, string> = {
+  github: 'GitHub repository',
+  local: 'Local dev server',
+  s3: 'S3-compatible bucket',
+};
+
+export const backendOf = (config: RepoConfig | PublicSiteConfig): StorageBackend => config.backend || 'github';
+
+export const getGalleryStore = (config: RepoConfig): GalleryStore => STORES[backendOf(config)](config);
+
+// Enough is known to read the gallery
+export const isStoreConfigured = (config: RepoConfig | PublicSiteConfig): boolean => {
+  switch (backendOf(config)) {
+    case 'local':
+      return true;
+    case 's3':
+      return Boolean(config.s3?.endpoint && config.s3.bucket);
+    default:
+      return Boolean(config.owner && config.repo);
+  }
+};
+
+// The dev server takes no credentials; every other backend needs its token or secret key
+export const canWrite = (config: RepoConfig): boolean =>
+  isStoreConfigured(config) && (backendOf(config) === 'local' || Boolean(config.token));
+
+// Short human description of where the gallery is kept, e.g. "octocat/my-art"
+export const describeStore = (config: RepoConfig): string => {
+  switch (backendOf(config)) {
+    case 'local':
+      return 'the local dev server';
+    case 's3':
+      return config.s3?.bucket ? `bucket ${config.s3.bucket}` : 'an S3 bucket';
+    default:
+      return `${config.owner}/${config.repo}`;
+  }
+};
+
+// Identifies the store across sessions, e.g. to keep queued work with the store it was meant for
+export const storeKey = (config: RepoConfig): string => {
+  switch (backendOf(config)) {
+    case 'local':
+      return `local:${config.local?.url || ''}`;
+    case 's3':
+      return `s3:${config.s3?.endpoint}/${config.s3?.bucket}`;
+    default:
+      return `${config.owner}/${config.repo}`;
+  }
+};
+
+export const fetchGallery = (config: RepoConfig): Promise<GalleryManifest> =>
+  isStoreConfigured(config) ? getGalleryStore(config).readManifest() : Promise.resolve(EMPTY_MANIFEST);
+
+export const fetchProfile = (config: RepoConfig): Promise<Profile | null> =>
+  isStoreConfigured(config) ? getGalleryStore(config).readProfile() : Promise.resolve(null);
+
+// Public site settings; readable by every visitor, so never put secrets here
+export const fetchSiteSettings = (config: RepoConfig): Promise<SiteSettings | null> =>
+  isStoreConfigured(config) ? getGalleryStore(config).readSettings() : Promise.resolve(null);
+
+// Studio access requires write access, not just the ability to read a public gallery
+export const verifyStoreAccess = (config: RepoConfig): Promise<boolean> =>
+  isStoreConfigured(config) ? getGalleryStore(config).verifyAccess() : Promise.resolve(false);
+
+export const updateProfile = async (profile: Profile, config: RepoConfig): Promise<void> => {
+  if (!canWrite(config)) throw new Error("Authentication required");
+  await getGalleryStore(config).writeProfile(profile);
+};
+
+export const updateSiteSettings = async (settings: SiteSettings, config: RepoConfig): Promise<void> => {
+  if (!canWrite(config)) throw new Error("Authentication required");
+  await getGalleryStore(config).writeSettings(settings);
+};
+
+const updateGalleryManifest = async (
+  update: (manifest: GalleryManifest) => GalleryManifest,
+  message: string,
+  config: RepoConfig,
+  files?: StoreFileChanges
+): Promise<GalleryManifest> => {
+  if (!canWrite(config)) throw new Error("Authentication required");
+  return getGalleryStore(config).writeManifest(update, message, files);
+};
+
+// Base path shared by all renditions of one upload, e.g. images/1765141882640-meise
+const buildImageBasePath = (file: File, timestamp: number): string => {
+  // Clean filename to be URL safe, dropping the extension since renditions add their own
+  const cleanName = file.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9-]/g, '').toLowerCase() || 'artwork';
+  return `images/${timestamp}-${cleanName}`;
+};
+
+// Every stored file an artwork references, for removal alongside its manifest entry
+const artworkImageUrls = (artwork: Artwork): string[] => [
+  artwork.imageUrl,
+  ...(artwork.thumbnailUrl ? [artwork.thumbnailUrl] : []),
+  ...(artwork.variants || []).map(v => v.url),
+];
+
+export interface ArtworkUpload {
+  file: File;
+  image: ProcessedImage;
+  artwork: Omit<Artwork, 'imageUrl' | 'width' | 'height' | 'variants' | 'thumbnailUrl'>;
+}
+
+// Publishes any number of artworks, images and manifest entries in one write
+// (a single commit on GitHub)
+export const publishArtworks = async (
+  uploads: ArtworkUpload[],
+  config: RepoConfig
+): Promise<Artwork[]> => {
+  if (uploads.length === 0) return [];
+
+  const store = getGalleryStore(config);
+  // Offset timestamps so files with the same name in one batch get distinct paths
+  const now = Date.now();
+  const files: { path: string; blob: Blob }[] = [];
+  const newArtworks: Artwork[] = [];
+
+  for (const [idx, { file, image, artwork }] of uploads.entries()) {
+    const basePath = buildImageBasePath(file, now + idx);
+    for (const rendition of [...image.variants, image.thumbnail]) {
+      files.push({ path: basePath + rendition.suffix, blob: rendition.blob });
+    }
+
+    // The largest JPEG doubles as imageUrl so older clients keep working
+    const largestJpeg = image.variants.filter(v => v.format === 'jpeg').sort((a, b) => b.width - a.width)[0];
+    newArtworks.push({
+      ...artwork,
+      imageUrl: store.publicUrl(basePath + largestJpeg.suffix),
+      width: image.width,
+      height: image.height,
+      thumbnailUrl: store.publicUrl(basePath + image.thumbnail.suffix),
+      variants: image.variants.map(v => ({ url: store.publicUrl(basePath + v.suffix), width: v.width, format: v.format })),
+    });
+  }
+
+  const message = newArtworks.length === 1
+    ? `Add artwork: ${newArtworks[0].title}`
+    : `Add ${newArtworks.length} artworks`;
+
+  // Prepend new artworks, keeping their given order. Ids already in the manifest are skipped,
+  // so a batch replayed from the offline queue can never appear twice.
+  await updateGalleryManifest(
+    current => ({
+      ...current,
+      artworks: [...newArtworks.filter(art => !current.artworks.some(existing => existing.id === art.id)), ...current.artworks],
+    }),
+    message,
+    config,
+    { add: files }
+  );
+  return newArtworks;
+};
+
+export const updateArtworkInManifest = async (
+  id: string,
+  changes: Partial<Omit<Artwork, 'id'>>,
+  config: RepoConfig
+): Promise<Artwork> => {
+  const updated = await updateArtworksInManifest({ [id]: changes }, `Update artwork: ${changes.title || id}`, config);
+  return updated[0];
+};
+
+// Changes for one artwork, or a function working them out from the entry as stored when the
+// write is applied, for changes that merge with what is already there
+export type ArtworkChanges = Partial<Omit<Artwork, 'id'>> | ((current: Artwork) => Partial<Omit<Artwork, 'id'>>);
+
+// Applies per-artwork changes to several entries in one write, returning the updated entries
+export const updateArtworksInManifest = async (
+  changesById: Record<string, ArtworkChanges>,
+  message: string,
+  config: RepoConfig
+): Promise<Artwork[]> => {
+  let updated: Artwork[] = [];
+
+  await updateGalleryManifest(current => {
+    const missing = Object.keys(changesById).filter(id => !current.artworks.some(art => art.id === id));
+    if (missing.length > 0) throw new Error("Artwork not found in gallery manifest");
+    updated = [];
+    const artworks = current.artworks.map(art => {
+      const changes = changesById[art.id];
+      if (!changes) return art;
+      const next = { ...art, ...(typeof changes === 'function' ? changes(art) : changes), id: art.id };
+      updated.push(next);
+      return next;
+    });
+    return { ...current, artworks };
+  }, message, config);
+
+  return updated;
+};
+
+// Store paths of every file only referenced by the given entries
+const unreferencedImagePaths = (removed: Artwork[], remaining: Artwork[], store: GalleryStore): string[] => {
+  const stillUsed = new Set(remaining.flatMap(artworkImageUrls));
+  return Array.from(new Set(removed.flatMap(artworkImageUrls)))
+    .filter(url => !stillUsed.has(url))
+    .map(url => store.pathFromUrl(url))
+    .filter((path): path is string => Boolean(path));
+};
+
+// Drops removed artworks from every collection, clearing covers that pointed at them
+const withoutMembers = (collections: Collection[], removedIds: string[]): Collection[] => {
+  return collections.map(col => ({
+    ...col,
+    artworkIds: col.artworkIds.filter(id => !removedIds.includes(id)),
+    coverArtworkId: col.coverArtworkId && removedIds.includes(col.coverArtworkId) ? undefined : col.coverArtworkId,
+  }));
+};
+
+// Removes the manifest entry and its image files in the same write
+export const deleteArtwork = async (
+  id: string,
+  config: RepoConfig
+): Promise<void> => {
+  const store = getGalleryStore(config);
+  const existing = (await store.readManifest()).artworks.find(art => art.id === id);
+  if (!existing) throw new Error("Artwork not found in gallery manifest");
+
+  await updateGalleryManifest(
+    manifest => ({
+      ...manifest,
+      artworks: manifest.artworks.filter(art => art.id !== id),
+      collections: withoutMembers(manifest.collections, [id]),
+    }),
+    `Remove artwork: ${existing.title}`,
+    config,
+    {
+      remove: manifest => unreferencedImagePaths(
+        manifest.artworks.filter(art => art.id === id),
+        manifest.artworks.filter(art => art.id !== id),
+        store
+      ),
+    }
+  );
+};
+
+// Collapses duplicate entries into `keepId`: tags are combined, the other entries and
+// their image files are removed, all in a single write
+export const mergeArtworks = async (
+  keepId: string,
+  duplicateIds: string[],
+  config: RepoConfig
+): Promise<void> => {
+  const store = getGalleryStore(config);
+  const current = (await store.readManifest()).artworks;
+  const keeper = current.find(art => art.id === keepId);
+  const duplicates = current.filter(art => duplicateIds.includes(art.id) && art.id !== keepId);
+  if (!keeper || duplicates.length === 0) throw new Error("Artwork not found in gallery manifest");
+
+  const mergedTags = Array.from(new Set([keeper.tags, ...duplicates.map(d => d.tags)].flat()));
+
+  const removedIds = duplicates.map(d => d.id);
+
+  // Collections that held a copy now hold the kept entry in that copy's place
+  const mergeIntoKeeper = (collections: Collection[]): Collection[] => collections.map(col => {
+    const artworkIds = Array.from(new Set(col.artworkIds.map(id => removedIds.includes(id) ? keepId : id)));
+    const coverArtworkId = col.coverArtworkId && removedIds.includes(col.coverArtworkId) ? keepId : col.coverArtworkId;
+    return { ...col, artworkIds, coverArtworkId };
+  });
+
+  await updateGalleryManifest(
+    manifest => ({
+      ...manifest,
+      artworks: manifest.artworks
+        .filter(art => !removedIds.includes(art.id))
+        .map(art => art.id === keepId ? { ...art, tags: mergedTags } : art),
+      collections: mergeIntoKeeper(manifest.collections),
+    }),
+    `Merge ${duplicates.length + 1} copies of: ${keeper.title}`,
+    config,
+    {
+      remove: manifest => unreferencedImagePaths(
+        manifest.artworks.filter(art => removedIds.includes(art.id)),
+        manifest.artworks.filter(art => !removedIds.includes(art.id)),
+        store
+      ),
+    }
+  );
+};
+
+// Stores a new curated gallery order. Entries missing from `orderedIds` keep their
+// relative order after the listed ones, so concurrent uploads are never dropped.
+export const reorderArtworks = async (
+  orderedIds: string[],
+  config: RepoConfig
+): Promise<GalleryManifest> => {
+  return updateGalleryManifest(current => {
+    const byId = new Map(current.artworks.map(art => [art.id, art]));
+    const ordered = orderedIds.map(id => byId.get(id)).filter((art): art is Artwork => Boolean(art));
+    const rest = current.artworks.filter(art => !orderedIds.includes(art.id));
+    return { ...current, artworks: [...ordered, ...rest] };
+  }, 'Reorder gallery', config);
+};
+
+// Creates the collection, or replaces the stored one with the same id
+export const saveCollection = async (
+  collection: Collection,
+  config: RepoConfig
+): Promise<GalleryManifest> => {
+  return updateGalleryManifest(current => {
+    const exists = current.collections.some(col => col.id === collection.id);
+    // Members deleted since the editor loaded are dropped
+    const saved = {
+      ...collection,
+      artworkIds: collection.artworkIds.filter(id => current.artworks.some(art => art.id === id)),
+    };
+    return {
+      ...current,
+      collections: exists
+        ? current.collections.map(col => col.id === collection.id ? saved : col)
+        : [...current.collections, saved],
+    };
+  }, `Update collection: ${collection.title}`, config);
+};
+
+// Only the grouping is removed; member artworks stay in the gallery
+export const deleteCollection = async (
+  collection: Collection,
+  config: RepoConfig
+): Promise<GalleryManifest> => {
+  return updateGalleryManifest(current => {
+    if (!current.collections.some(col => col.id === collection.id)) throw new Error("Collection not found in gallery manifest");
+    return { ...current, collections: current.collections.filter(col => col.id !== collection.id) };
+  }, `Remove collection: ${collection.title}`, config);
+};
+
+// Permanently drops the entries parseManifest rejected, which are otherwise written back unchanged
+export const discardInvalidEntries = async (config: RepoConfig): Promise<GalleryManifest> => {
+  return updateGalleryManifest(
+    current => ({ ...current, invalid: [] }),
+    'Remove invalid gallery entries',
+    config
+  );
+};
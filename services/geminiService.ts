@@ -1,7 +1,19 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { GeneratedMetadata } from "../types";
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Type, Schema } from "@google/genai";
+import { MetadataField, MetadataProvider } from "../types";
+import { LOCALE_NAMES } from "./i18n";
+import { curatorInstruction, curatorModel, curatorPrompt, curatorTagCount } from "./curatorVoice";
+import { MetadataError } from "./metadataErrors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use, so a missing key is reported where Gemini is needed rather than at load
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new MetadataError('auth', "No Gemini API key is set. Add GEMINI_API_KEY to .env.local, or set METADATA_PROVIDER=mock to work without one.");
+  }
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
 
 // Helper to convert file to base64
 export const fileToGenerativePart = async (file: File): Promise<string> => {
@@ -18,26 +30,87 @@ export const fileToGenerativePart = async (file: File): Promise<string> => {
   });
 };
 
-export const generateArtworkMetadata = async (base64Image: string, mimeType: string): Promise<GeneratedMetadata> => {
-  const model = "gemini-2.5-flash";
+// Quota errors carry the suggested wait in their message, e.g. "Please retry in 12.5s" or "retryDelay": "12s"
+const retryDelayOf = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay)?["']?\s*(?:in|:)?\s*["']?(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Sorts whatever the SDK or fetch threw into the kinds the studio knows how to explain
+const toMetadataError = (err: unknown): MetadataError => {
+  if (err instanceof MetadataError) return err;
+  if (err instanceof Error && err.name === 'AbortError') return new MetadataError('cancelled');
+  if (err instanceof ApiError) {
+    if (err.status === 401 || err.status === 403 || (err.status === 400 && /api[_ ]key/i.test(err.message))) {
+      return new MetadataError('auth');
+    }
+    if (err.status === 429) return new MetadataError('quota', undefined, retryDelayOf(err.message));
+    if (err.status >= 500) return new MetadataError('unavailable');
+    return new MetadataError('unknown', err.message);
+  }
+  // fetch rejects with a TypeError when the network is down
+  if (err instanceof TypeError) return new MetadataError('network');
+  if (err instanceof SyntaxError) return new MetadataError('malformed');
+  return new MetadataError('unknown', err instanceof Error ? err.message : undefined);
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+// The answer's text, or the reason there is none
+const responseText = (response: GenerateContentResponse): string => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new MetadataError('safety');
+  }
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    throw new MetadataError('malformed', "Gemini's answer was cut off. Try again.");
+  }
+  const text = response.text;
+  if (!text) {
+    throw new MetadataError('malformed', "No text returned from Gemini");
+  }
+  return text;
+};
+
+// Schemas of the placard fields, shared by the full analysis and the per-field alternatives
+const fieldSchemas = (tagCount: number): Record<MetadataField, Schema> => ({
+  title: { type: Type.STRING, description: "A creative, artistic title for the image." },
+  description: { type: Type.STRING, description: "A sophisticated, 2-3 sentence description suitable for an art gallery placard." },
+  medium: { type: Type.STRING, description: "The estimated artistic medium (e.g., Oil on Canvas, Digital Photography, Charcoal)." },
+  tags: {
+    type: Type.ARRAY,
+    items: { type: Type.STRING },
+    description: `${tagCount} relevant keywords describing the style and content.`
+  },
+  altText: {
+    type: Type.STRING,
+    description: "Alt text for screen-reader users: a literal, neutral description of what the image shows (subject, composition, main colours) in one or two sentences, at most 200 characters. Ignore the curator's tone here, do not interpret, and do not start with 'Image of'.",
+  },
+});
+
+const generateMetadata: MetadataProvider['generateMetadata'] = async (base64Image, mimeType, { language, curator, context, signal }) => {
+  const model = curatorModel(curator);
   
   const responseSchema: Schema = {
     type: Type.OBJECT,
     properties: {
-      title: { type: Type.STRING, description: "A creative, artistic title for the image." },
-      description: { type: Type.STRING, description: "A sophisticated, 2-3 sentence description suitable for an art gallery placard." },
-      medium: { type: Type.STRING, description: "The estimated artistic medium (e.g., Oil on Canvas, Digital Photography, Charcoal)." },
-      tags: { 
-        type: Type.ARRAY, 
-        items: { type: Type.STRING },
-        description: "5 relevant keywords describing the style and content." 
+      ...fieldSchemas(curatorTagCount(curator)),
+      year: {
+        type: Type.INTEGER,
+        description: "The year the work was made, only if a date is clearly written on the artwork (e.g. beside the signature). Omit otherwise; never guess from style.",
       }
     },
-    required: ["title", "description", "medium", "tags"],
+    required: ["title", "description", "medium", "tags", "altText"],
   };
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: model,
       contents: {
         parts: [
@@ -48,25 +121,177 @@ export const generateArtworkMetadata = async (base64Image: string, mimeType: str
             }
           },
           {
-            text: "You are an expert art curator. Analyze this artwork and generate metadata for the portfolio website."
+            text: curatorPrompt(curator, language, context)
           }
         ]
       },
       config: {
         responseMimeType: "application/json",
         responseSchema: responseSchema,
-        systemInstruction: "You are a professional art curator. Your tone is elegant, insightful, and concise. Avoid generic phrases like 'This image shows'. Focus on emotions, lighting, and composition.",
+        systemInstruction: curatorInstruction(curator),
+        abortSignal: signal,
       }
     });
 
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("No text returned from Gemini");
-    }
+    return JSON.parse(responseText(response));
+  } catch (error) {
+    throw toMetadataError(error);
+  }
+};
+
+const generateFieldAlternatives: MetadataProvider['generateFieldAlternatives'] = async (
+  base64Image,
+  mimeType,
+  field,
+  current,
+  count,
+  { language, curator, context, signal }
+) => {
+  const model = curatorModel(curator);
+
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      alternatives: {
+        type: Type.ARRAY,
+        items: fieldSchemas(curatorTagCount(curator))[field],
+        description: `${count} distinct alternatives for the ${field}.`,
+      }
+    },
+    required: ["alternatives"],
+  };
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Image
+            }
+          },
+          {
+            text: `${curatorPrompt(curator, language, context)}\n\nThe placard currently reads:\n${JSON.stringify(current, null, 2)}\n\nWrite ${count} alternatives for the ${field} only. Each should differ clearly from the current one and from each other, and still fit the rest of the placard.`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        systemInstruction: curatorInstruction(curator),
+        abortSignal: signal,
+      }
+    });
 
-    return JSON.parse(jsonText) as GeneratedMetadata;
+    return JSON.parse(responseText(response))?.alternatives;
   } catch (error) {
-    console.error("Error generating metadata:", error);
-    throw error;
+    throw toMetadataError(error);
   }
 };
+
+// Translates placard text into each target language, keeping the curator's tone
+const translate: MetadataProvider['translate'] = async (text, from, to, curator, signal) => {
+  const model = curatorModel(curator);
+
+  const textSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      medium: { type: Type.STRING },
+      tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      altText: { type: Type.STRING }
+    },
+    required: ["title", "description", "medium", "tags"],
+  };
+
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(to.map(locale => [locale, textSchema])),
+    required: to,
+  };
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          {
+            text: `Translate this artwork metadata from ${LOCALE_NAMES[from]} into ${to.map(l => `${LOCALE_NAMES[l]} (key "${l}")`).join(', ')}. Keep the title evocative rather than literal, use the established art term for the medium, translate each tag, and keep the alt text literal.\n\n${JSON.stringify(text, null, 2)}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        systemInstruction: "You are a professional art curator and literary translator. Preserve the elegant, insightful tone of the original.",
+        abortSignal: signal,
+      }
+    });
+
+    return JSON.parse(responseText(response));
+  } catch (error) {
+    throw toMetadataError(error);
+  }
+};
+
+export const EMBEDDING_MODEL = "gemini-embedding-001";
+// Enough to tell artworks apart while keeping embeddings.json small
+export const EMBEDDING_DIMENSIONS = 256;
+
+// Embeds each text in one request
+const embed: MetadataProvider['embed'] = async (texts, taskType, signal) => {
+  try {
+    const response = await getClient().models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS, abortSignal: signal },
+    });
+
+    return (response.embeddings || []).map(embedding => embedding.values);
+  } catch (error) {
+    throw toMetadataError(error);
+  }
+};
+
+// A plain visual description of the image for search: subjects, palette, light, mood, season.
+// Embedded like any other text, so searches can match what a work looks like, not just its placard.
+const describeForSearch: MetadataProvider['describeForSearch'] = async (base64Image, mimeType, curator, signal) => {
+  const model = curatorModel(curator);
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Image
+            }
+          },
+          {
+            text: "Describe what this artwork looks like in about 80 words of plain English prose: subjects, setting, colour palette, light, season or time of day, mood, composition and style. No title, no interpretation of the artist's intent."
+          }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+      }
+    });
+
+    return responseText(response).trim();
+  } catch (error) {
+    throw toMetadataError(error);
+  }
+};
+
+export const geminiProvider: MetadataProvider = {
+  generateMetadata,
+  generateFieldAlternatives,
+  translate,
+  embed,
+  describeForSearch,
+};
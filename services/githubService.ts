@@ -1,4 +1,7 @@
-import { Artwork, RepoConfig } from '../types';
+import { EmbeddingIndex, GalleryManifest, GalleryStore, HistoryCommit, HistoryFile, Inquiry, Profile, ReceivedInquiry, RepoConfig, SiteSettings, StoreFileChanges } from '../types';
+import { blobToBase64 } from './imageService';
+import { EMPTY_MANIFEST, MAX_WRITE_ATTEMPTS, parseManifest, parseManifestForUpdate, pathsToRemove, serializeManifest } from './manifest';
+import { parseProfile } from './schema';
 
 const BASE_URL = 'https://api.github.com';
 
@@ -27,8 +30,8 @@ export const getRepoDetails = async (config: RepoConfig) => {
   }
 };
 
-export const fetchGalleryFromGitHub = async (config: RepoConfig): Promise<Artwork[]> => {
-  if (!config.owner || !config.repo) return [];
+export const fetchGalleryFromGitHub = async (config: RepoConfig): Promise<GalleryManifest> => {
+  if (!config.owner || !config.repo) return EMPTY_MANIFEST;
   
   const branch = config.branch || 'main';
 
@@ -50,11 +53,11 @@ export const fetchGalleryFromGitHub = async (config: RepoConfig): Promise<Artwor
         if (data.content) {
           const cleanContent = data.content.replace(/\n/g, '');
           const jsonString = b64_to_utf8(cleanContent);
-          return JSON.parse(jsonString);
+          return parseManifest(JSON.parse(jsonString));
         }
       } else if (response.status === 404) {
-        // File doesn't exist yet, return empty array
-        return [];
+        // File doesn't exist yet, return empty manifest
+        return EMPTY_MANIFEST;
       }
     } catch (e) {
       console.warn("API fetch failed, attempting fallback to Raw URL", e);
@@ -65,106 +68,336 @@ export const fetchGalleryFromGitHub = async (config: RepoConfig): Promise<Artwor
   // This is what regular visitors use.
   const url = `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${branch}/gallery.json?t=${Date.now()}`;
   
+  const response = await fetch(url);
+  if (response.status === 404) return EMPTY_MANIFEST;
+  if (!response.ok) throw new Error(`Failed to load gallery.json (${response.status})`);
+  return parseManifest(await response.json());
+};
+
+// Reads a small JSON object file (profile.json, settings.json) from the repo root
+const fetchJsonObjectFromGitHub = async <T>(path: string, config: RepoConfig): Promise<T | null> => {
+  if (!config.owner || !config.repo) return null;
+
+  const branch = config.branch || 'main';
+
+  // Authenticated fetch first so the artist sees edits immediately
+  if (config.token) {
+    try {
+      const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}?ref=${branch}`, {
+        headers: {
+          'Authorization': `Bearer ${config.token}`,
+          'Accept': 'application/vnd.github.v3+json',
+          'Cache-Control': 'no-cache'
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.content) {
+          const cleanContent = data.content.replace(/\n/g, '');
+          return JSON.parse(b64_to_utf8(cleanContent));
+        }
+      } else if (response.status === 404) {
+        return null;
+      }
+    } catch (e) {
+      console.warn("API fetch failed, attempting fallback to Raw URL", e);
+    }
+  }
+
+  const url = `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${branch}/${path}?t=${Date.now()}`;
+
   try {
     const response = await fetch(url);
-    if (!response.ok) return [];
+    if (!response.ok) return null;
     const data = await response.json();
-    return Array.isArray(data) ? data : [];
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : null;
   } catch (error) {
-    console.warn("Error fetching gallery from GitHub:", error);
-    return [];
+    console.warn(`Error fetching ${path} from GitHub:`, error);
+    return null;
   }
 };
 
+// Studio access requires push rights, not just read access to a public repo
 export const verifyRepoAccess = async (config: RepoConfig): Promise<boolean> => {
-  if (!config.token) return false;
-  try {
-    const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}`, {
-      headers: {
-        'Authorization': `Bearer ${config.token}`,
-        'Accept': 'application/vnd.github.v3+json'
-      }
-    });
-    return response.ok;
-  } catch (e) {
-    return false;
-  }
+  const details = await getRepoDetails(config);
+  return Boolean(details?.permissions?.push || details?.permissions?.admin);
 };
 
-export const uploadImageToGitHub = async (
-  file: File, 
-  base64Content: string, 
-  config: RepoConfig
-): Promise<string> => {
-  if (!config.token) throw new Error("Authentication required");
-
-  // Clean filename to be URL safe
-  const cleanName = file.name.replace(/[^a-zA-Z0-9.-]/g, '').toLowerCase();
-  const path = `images/${Date.now()}-${cleanName}`;
+// Maps a repo path to the public raw.githubusercontent.com URL used in the manifest
+// Note: For private repos, this URL is not publicly accessible
+const rawUrlForPath = (path: string, config: RepoConfig): string => {
   const branch = config.branch || 'main';
+  return `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${branch}/${path}`;
+};
 
-  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}`, {
-    method: 'PUT',
+// Maps a raw.githubusercontent.com URL back to its repo path
+const imagePathFromUrl = (imageUrl: string, config: RepoConfig): string | null => {
+  const prefix = rawUrlForPath('', config);
+  if (!imageUrl.startsWith(prefix)) return null;
+  return decodeURIComponent(imageUrl.slice(prefix.length).split('?')[0]);
+};
+
+// ----------------------------------------------------------------------
+// Git Data API
+// Every gallery write is a single commit built from blobs and a tree, so an
+// image and the manifest entry that references it always land together.
+// ----------------------------------------------------------------------
+
+class RefConflictError extends Error {}
+
+const gitApi = async (path: string, config: RepoConfig, init: { method?: string; body?: unknown } = {}) => {
+  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/git/${path}`, {
+    method: init.method || 'GET',
     headers: {
       'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
       'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache'
     },
-    body: JSON.stringify({
-      message: `Upload artwork: ${cleanName}`,
-      content: base64Content,
-      branch: branch
-    })
+    body: init.body ? JSON.stringify(init.body) : undefined
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || "Failed to upload image");
+    const error = await response.json().catch(() => ({}));
+    // A ref update that is not a fast-forward means someone else committed first
+    if (path.startsWith('refs/') && init.method === 'PATCH' && response.status === 422) {
+      throw new RefConflictError(error.message || "Branch has moved on");
+    }
+    throw new Error(error.message || `GitHub request failed: ${path}`);
   }
+  return response.json();
+};
 
-  // Return the Raw URL
-  // Note: For private repos, this URL is not publicly accessible
-  return `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${branch}/${path}`;
+// The parts of GitHub's commit list and tree answers that history and restore read
+interface GitHubCommitSummary {
+  sha: string;
+  html_url: string;
+  author: { login: string } | null;
+  parents: { sha: string }[];
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+    committer: { date: string } | null;
+  };
+}
+
+interface GitTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+}
+
+interface GitTree {
+  sha: string;
+  tree: GitTreeEntry[];
+}
+
+// Reads a JSON file as it was at a specific commit, or null if it did not exist there.
+// Unlike the public fetch, other errors are thrown so a failed read can never wipe a file.
+// The raw media type is used because the default JSON answer leaves `content` empty for
+// files over 1 MB, which would read a large gallery as an empty one.
+const readJsonAtCommit = async (path: string, commitSha: string, config: RepoConfig): Promise<unknown | null> => {
+  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}?ref=${commitSha}`, {
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.raw+json'
+    }
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to read ${path}`);
+  }
+
+  const text = await response.text();
+  if (!text.trim()) throw new Error(`${path} exists at ${commitSha.slice(0, 7)} but came back empty`);
+  return JSON.parse(text);
+};
+
+const readManifestAtCommit = async (commitSha: string, config: RepoConfig): Promise<GalleryManifest> => {
+  const data = await readJsonAtCommit('gallery.json', commitSha, config);
+  return data === null ? EMPTY_MANIFEST : parseManifestForUpdate(data);
+};
+
+// gallery.json as of an older commit, for browsing history. Newer layouts are read best-effort.
+export const fetchManifestAtCommit = async (commitSha: string, config: RepoConfig): Promise<GalleryManifest> => {
+  const data = await readJsonAtCommit('gallery.json', commitSha, config);
+  return data === null ? EMPTY_MANIFEST : parseManifest(data);
 };
 
+// gallery.json as of an older commit, for writing back. Refuses a commit without the file, which
+// would otherwise restore an empty gallery, and layouts newer than this app can write.
+export const fetchManifestForRestore = async (commitSha: string, config: RepoConfig): Promise<GalleryManifest> => {
+  const data = await readJsonAtCommit('gallery.json', commitSha, config);
+  if (data === null) throw new Error(`There is no gallery.json at ${commitSha.slice(0, 7)}, so there is nothing to restore.`);
+  return parseManifestForUpdate(data);
+};
+
+export const fetchProfileAtCommit = async (commitSha: string, config: RepoConfig): Promise<Profile | null> =>
+  parseProfile(await readJsonAtCommit('profile.json', commitSha, config));
+
+// Full pages have this many commits; a shorter one is the last
+export const COMMITS_PER_PAGE = 30;
+
+// One page of commits that touched `path` on the configured branch, newest first
+export const listCommitsForPath = async (path: HistoryFile, config: RepoConfig, page = 1): Promise<HistoryCommit[]> => {
+  const branch = config.branch || 'main';
+  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/commits?path=${encodeURIComponent(path)}&sha=${encodeURIComponent(branch)}&per_page=${COMMITS_PER_PAGE}&page=${page}`, {
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Cache-Control': 'no-cache'
+    }
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to load history of ${path}`);
+  }
+
+  const commits: GitHubCommitSummary[] = await response.json();
+  return commits.map(item => ({
+    sha: item.sha,
+    message: item.commit.message,
+    author: item.author?.login || item.commit.author?.name || 'unknown',
+    date: item.commit.author?.date || item.commit.committer?.date || '',
+    url: item.html_url,
+    files: [path],
+    parentSha: item.parents[0]?.sha,
+  }));
+};
+
+// Blob SHAs of the files directly inside `dir` at a commit, keyed by repo path. Lets a restore
+// point at old image files again without downloading and re-uploading them.
+export const listBlobShasAtCommit = async (dir: string, commitSha: string, config: RepoConfig): Promise<Map<string, string>> => {
+  const commit = await gitApi(`commits/${commitSha}`, config);
+  const root: GitTree = await gitApi(`trees/${commit.tree.sha}`, config);
+  const dirEntry = root.tree.find(entry => entry.path === dir && entry.type === 'tree');
+  if (!dirEntry) return new Map();
+
+  const listing: GitTree = await gitApi(`trees/${dirEntry.sha}`, config);
+  return new Map(listing.tree
+    .filter(entry => entry.type === 'blob')
+    .map(entry => [`${dir}/${entry.path}`, entry.sha] as [string, string]));
+};
+
+// Applies `update` to the latest gallery.json and commits it together with any file
+// changes. If the branch moves while we work, the update is re-applied on top of the
+// newer manifest and the commit retried. `existingBlobs` puts blobs already in the
+// repository (e.g. images from an older commit) back at their paths.
 export const updateGalleryManifest = async (
-  newArtwork: Artwork, 
-  config: RepoConfig
-): Promise<void> => {
+  update: (manifest: GalleryManifest) => GalleryManifest,
+  message: string,
+  config: RepoConfig,
+  files: StoreFileChanges = {},
+  existingBlobs: { path: string; sha: string }[] = []
+): Promise<GalleryManifest> => {
   if (!config.token) throw new Error("Authentication required");
-  
-  const path = 'gallery.json';
+
   const branch = config.branch || 'main';
-  const url = `${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}`;
 
-  // 1. Get current file (to get SHA and current list)
+  // Blobs are content-addressed, so they are uploaded once and reused across retries
+  const imageBlobs = await Promise.all((files.add || []).map(async file => {
+    const blob = await gitApi('blobs', config, {
+      method: 'POST',
+      body: { content: await blobToBase64(file.blob), encoding: 'base64' }
+    });
+    return { path: file.path, sha: blob.sha as string };
+  }));
+
+  for (let attempt = 1; ; attempt++) {
+    // 1. Find the current head of the branch
+    const ref = await gitApi(`ref/heads/${branch}`, config);
+    const headSha: string = ref.object.sha;
+    const headCommit = await gitApi(`commits/${headSha}`, config);
+
+    // 2. Apply the change to the manifest as of that commit
+    const currentManifest = await readManifestAtCommit(headSha, config);
+    const updatedManifest = update(currentManifest);
+
+    // 3. Build a tree with the manifest, new images and removals
+    const tree = await gitApi('trees', config, {
+      method: 'POST',
+      body: {
+        base_tree: headCommit.tree.sha,
+        tree: [
+          { path: 'gallery.json', mode: '100644', type: 'blob', content: serializeManifest(updatedManifest) },
+          ...[...existingBlobs, ...imageBlobs].map(blob => ({ path: blob.path, mode: '100644', type: 'blob', sha: blob.sha })),
+          ...pathsToRemove(files, currentManifest).map(path => ({ path, mode: '100644', type: 'blob', sha: null })),
+        ]
+      }
+    });
+
+    // 4. Commit and move the branch
+    const commit = await gitApi('commits', config, {
+      method: 'POST',
+      body: { message, tree: tree.sha, parents: [headSha] }
+    });
+
+    try {
+      await gitApi(`refs/heads/${branch}`, config, {
+        method: 'PATCH',
+        body: { sha: commit.sha, force: false }
+      });
+      return updatedManifest;
+    } catch (e) {
+      if (e instanceof RefConflictError && attempt < MAX_WRITE_ATTEMPTS) {
+        console.warn(`Gallery changed during commit, retrying (${attempt}/${MAX_WRITE_ATTEMPTS})`);
+        continue;
+      }
+      throw e;
+    }
+  }
+};
+
+// Reads a JSON file through the contents API, returning the blob SHA needed for writes
+const getJsonFileWithSha = async <T>(
+  path: string,
+  fallback: T,
+  config: RepoConfig
+): Promise<{ sha?: string; data: T }> => {
+  const branch = config.branch || 'main';
+  const url = `${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}?ref=${branch}`;
+
   let sha: string | undefined;
-  let currentArtworks: Artwork[] = [];
+  let data = fallback;
 
   try {
     const getResponse = await fetch(url, {
       headers: { 
         'Authorization': `Bearer ${config.token}`,
-        'Accept': 'application/vnd.github.v3+json'
+        'Accept': 'application/vnd.github.v3+json',
+        'Cache-Control': 'no-cache'
       }
     });
 
     if (getResponse.ok) {
-      const data = await getResponse.json();
-      sha = data.sha;
-      if (data.content) {
-        const cleanContent = data.content.replace(/\n/g, '');
+      const file = await getResponse.json();
+      sha = file.sha;
+      if (file.content) {
+        const cleanContent = file.content.replace(/\n/g, '');
         const jsonString = b64_to_utf8(cleanContent);
-        currentArtworks = JSON.parse(jsonString);
+        data = JSON.parse(jsonString);
       }
     }
   } catch (e) {
-    console.log("Creating new gallery.json");
+    console.log(`Creating new ${path}`);
   }
 
-  // 2. Prepend new artwork
-  const updatedArtworks = [newArtwork, ...currentArtworks];
+  return { sha, data };
+};
+
+const putJsonFile = async (
+  path: string,
+  data: unknown,
+  sha: string | undefined,
+  message: string,
+  config: RepoConfig
+): Promise<void> => {
+  const branch = config.branch || 'main';
+  const url = `${BASE_URL}/repos/${config.owner}/${config.repo}/contents/${path}`;
 
-  // 3. Update file
   const response = await fetch(url, {
     method: 'PUT',
     headers: {
@@ -172,8 +405,8 @@ export const updateGalleryManifest = async (
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      message: `Add artwork: ${newArtwork.title}`,
-      content: utf8_to_b64(JSON.stringify(updatedArtworks, null, 2)),
+      message,
+      content: utf8_to_b64(JSON.stringify(data, null, 2)),
       sha: sha,
       branch: branch
     })
@@ -181,6 +414,137 @@ export const updateGalleryManifest = async (
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || "Failed to update gallery manifest");
+    throw new Error(error.message || `Failed to update ${path}`);
   }
-};
\ No newline at end of file
+};
+
+// Profile, settings and the site config are single files outside the gallery commit flow
+export const writeJsonFile = async (path: string, data: unknown, message: string, config: RepoConfig): Promise<void> => {
+  if (!config.token) throw new Error("Authentication required");
+
+  const { sha } = await getJsonFileWithSha<unknown>(path, null, config);
+  await putJsonFile(path, data, sha, message, config);
+};
+
+// The GitHub repository as a GalleryStore: every change is a commit, and images
+// land in the same commit as the manifest entries that reference them
+export const createGitHubStore = (config: RepoConfig): GalleryStore => ({
+  readManifest: () => fetchGalleryFromGitHub(config),
+  writeManifest: (update, message, files) => updateGalleryManifest(update, message, config, files),
+  putImage: async (path, blob) => {
+    await updateGalleryManifest(manifest => manifest, `Add ${path}`, config, { add: [{ path, blob }] });
+  },
+  deleteImage: async (path) => {
+    await updateGalleryManifest(manifest => manifest, `Remove ${path}`, config, { remove: [path] });
+  },
+  readProfile: async () => parseProfile(await fetchJsonObjectFromGitHub<unknown>('profile.json', config)),
+  writeProfile: (profile) => writeJsonFile('profile.json', profile, 'Update artist profile', config),
+  readSettings: () => fetchJsonObjectFromGitHub<SiteSettings>('settings.json', config),
+  writeSettings: (settings) => writeJsonFile('settings.json', settings, 'Update site settings', config),
+  readEmbeddings: () => fetchJsonObjectFromGitHub<EmbeddingIndex>('embeddings.json', config),
+  writeEmbeddings: (index) => writeJsonFile('embeddings.json', index, 'Update search index', config),
+  publicUrl: (path) => rawUrlForPath(path, config),
+  pathFromUrl: (url) => imagePathFromUrl(url, config),
+  verifyAccess: () => verifyRepoAccess(config),
+});
+
+// ----------------------------------------------------------------------
+// Inquiries as GitHub issues
+// Visitors have no token, so they file the issue themselves from a pre-filled
+// form on github.com. The title prefix is how the studio recognises them.
+// ----------------------------------------------------------------------
+
+const INQUIRY_ISSUE_PREFIX = '[Inquiry]';
+
+export const newInquiryIssueUrl = (inquiry: Inquiry, config: RepoConfig): string => {
+  const body = [
+    inquiry.message,
+    '',
+    '---',
+    `Artwork: ${inquiry.artworkTitle} (${inquiry.artworkId})`,
+    `Type: ${inquiry.kind}`,
+    `From: ${inquiry.name} <${inquiry.email}>`,
+  ].join('\n');
+  const params = new URLSearchParams({
+    title: `${INQUIRY_ISSUE_PREFIX} ${inquiry.artworkTitle}`,
+    body,
+  });
+  return `https://github.com/${config.owner}/${config.repo}/issues/new?${params.toString()}`;
+};
+
+// The parts of GitHub's issue list answer that the inbox reads
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  created_at: string;
+  html_url: string;
+  user: { login: string } | null;
+  // Only present on pull requests, which the issues endpoint also returns
+  pull_request?: unknown;
+}
+
+// Parses the footer written by newInquiryIssueUrl; edited issues keep whatever is still recognisable
+const parseInquiryIssue = (issue: GitHubIssue): ReceivedInquiry => {
+  const body = issue.body || '';
+  const [message, footer = ''] = body.split(/\n---\n/);
+  const field = (name: string) => footer.match(new RegExp(`^${name}: (.*)$`, 'm'))?.[1] || '';
+  const artwork = field('Artwork').match(/^(.*) \((.+)\)$/);
+  const from = field('From').match(/^(.*) <(.*)>$/);
+  return {
+    id: `github-${issue.number}`,
+    artworkId: artwork?.[2] || '',
+    artworkTitle: artwork?.[1] || issue.title.replace(INQUIRY_ISSUE_PREFIX, '').trim(),
+    kind: field('Type') === 'commission' ? 'commission' : 'purchase',
+    name: from?.[1] || issue.user?.login || '',
+    email: from?.[2] || '',
+    message: message.trim(),
+    createdAt: new Date(issue.created_at).getTime(),
+    source: 'github',
+    url: issue.html_url,
+    issueNumber: issue.number,
+    isOpen: issue.state === 'open',
+  };
+};
+
+export const fetchInquiryIssues = async (config: RepoConfig): Promise<ReceivedInquiry[]> => {
+  if (!config.token) throw new Error("Authentication required");
+
+  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/issues?state=all&per_page=100`, {
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+    }
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to load inquiries");
+  }
+
+  const issues: GitHubIssue[] = await response.json();
+  return issues
+    .filter(issue => !issue.pull_request && issue.title.startsWith(INQUIRY_ISSUE_PREFIX))
+    .map(parseInquiryIssue);
+};
+
+export const setInquiryIssueOpen = async (
+  issueNumber: number,
+  isOpen: boolean,
+  config: RepoConfig
+): Promise<void> => {
+  if (!config.token) throw new Error("Authentication required");
+
+  const response = await fetch(`${BASE_URL}/repos/${config.owner}/${config.repo}/issues/${issueNumber}`, {
+    method: 'PATCH',
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ state: isOpen ? 'open' : 'closed' }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Failed to update inquiry");
+  }
+};
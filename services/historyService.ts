@@ -0,0 +1,200 @@
+import { Artwork, GalleryManifest, HistoryCommit, HistoryFile, Profile, RepoConfig } from '../types';
+import {
+  COMMITS_PER_PAGE,
+  fetchManifestForRestore,
+  fetchProfileAtCommit,
+  listBlobShasAtCommit,
+  listCommitsForPath,
+  updateGalleryManifest,
+  writeJsonFile,
+} from './githubService';
+import { getGalleryStore } from './galleryStore';
+
+// ----------------------------------------------------------------------
+// Version history of the gallery, read from the GitHub commit log. Only
+// the GitHub backend keeps history; the other stores overwrite in place.
+// ----------------------------------------------------------------------
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type ArtworkChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ArtworkChange {
+  id: string;
+  kind: ArtworkChangeKind;
+  before?: Artwork;
+  after?: Artwork;
+  // Only for 'changed'
+  fields: FieldChange[];
+}
+
+export interface ManifestDiff {
+  artworks: ArtworkChange[];
+  // The curated order of entries present in both versions differs
+  orderChanged: boolean;
+  collectionsChanged: boolean;
+}
+
+const HISTORY_FILES: HistoryFile[] = ['gallery.json', 'profile.json'];
+
+// How far each file's commit list has been read
+interface FileHistory {
+  // Fetched but not returned yet, newest first
+  pending: HistoryCommit[];
+  nextPage: number;
+  exhausted: boolean;
+}
+
+export type HistoryCursor = Record<HistoryFile, FileHistory>;
+
+export interface HistoryBatch {
+  commits: HistoryCommit[];
+  // Pass back for the next, older batch; null once everything has been listed
+  cursor: HistoryCursor | null;
+}
+
+const INITIAL_CURSOR: HistoryCursor = {
+  'gallery.json': { pending: [], nextPage: 1, exhausted: false },
+  'profile.json': { pending: [], nextPage: 1, exhausted: false },
+};
+
+// The next batch of commits touching gallery.json or profile.json, newest first. Each file's
+// list is paged on its own, and a commit is only returned once every list still being paged
+// reaches back to its date, so batches join into one date-ordered history without gaps.
+// A commit that changed both files appears once.
+export const listGalleryHistory = async (config: RepoConfig, cursor: HistoryCursor = INITIAL_CURSOR): Promise<HistoryBatch> => {
+  const state: HistoryCursor = { ...cursor };
+  await Promise.all(HISTORY_FILES.map(async file => {
+    const { pending, nextPage, exhausted } = state[file];
+    if (pending.length > 0 || exhausted) return;
+    const page = await listCommitsForPath(file, config, nextPage);
+    state[file] = { pending: page, nextPage: nextPage + 1, exhausted: page.length < COMMITS_PER_PAGE };
+  }));
+
+  // Older commits of a list still being paged may sit on its next page, so nothing before the
+  // oldest commit read from it can be returned yet
+  const cutoff = HISTORY_FILES
+    .filter(file => !state[file].exhausted)
+    .map(file => state[file].pending[state[file].pending.length - 1].date)
+    .reduce((latest, date) => date > latest ? date : latest, '');
+
+  const bySha = new Map<string, HistoryCommit>();
+  for (const file of HISTORY_FILES) {
+    const { pending } = state[file];
+    state[file] = { ...state[file], pending: pending.filter(commit => commit.date < cutoff) };
+    for (const commit of pending.filter(commit => commit.date >= cutoff)) {
+      const existing = bySha.get(commit.sha);
+      bySha.set(commit.sha, existing ? { ...existing, files: [...existing.files, ...commit.files] } : commit);
+    }
+  }
+  const commits = Array.from(bySha.values()).sort((a, b) => b.date.localeCompare(a.date));
+  const hasMore = HISTORY_FILES.some(file => !state[file].exhausted || state[file].pending.length > 0);
+  return { commits, cursor: hasMore ? state : null };
+};
+
+// Top-level fields that differ; nested values (tags, translations...) compare as a whole
+export const diffFields = (before: object, after: object): FieldChange[] => {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+  return fields
+    .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .map(field => ({ field, before: a[field], after: b[field] }));
+};
+
+export const diffManifests = (before: GalleryManifest, after: GalleryManifest): ManifestDiff => {
+  const beforeById = new Map(before.artworks.map(art => [art.id, art]));
+  const afterById = new Map(after.artworks.map(art => [art.id, art]));
+  const artworks: ArtworkChange[] = [];
+
+  for (const art of after.artworks) {
+    const old = beforeById.get(art.id);
+    if (!old) {
+      artworks.push({ id: art.id, kind: 'added', after: art, fields: [] });
+      continue;
+    }
+    const fields = diffFields(old, art);
+    if (fields.length > 0) artworks.push({ id: art.id, kind: 'changed', before: old, after: art, fields });
+  }
+  for (const art of before.artworks) {
+    if (!afterById.has(art.id)) artworks.push({ id: art.id, kind: 'removed', before: art, fields: [] });
+  }
+
+  const commonOrder = (manifest: GalleryManifest, other: Map<string, Artwork>) =>
+    manifest.artworks.filter(art => other.has(art.id)).map(art => art.id).join('\n');
+
+  return {
+    artworks,
+    orderChanged: commonOrder(before, afterById) !== commonOrder(after, beforeById),
+    collectionsChanged: JSON.stringify(before.collections) !== JSON.stringify(after.collections),
+  };
+};
+
+export const diffProfiles = (before: Profile | null, after: Profile | null): FieldChange[] =>
+  diffFields(before || {}, after || {});
+
+// Image files the given entries reference, as blobs from `commitSha`. Deleting an artwork also
+// deletes its files, so they have to come back with the entry.
+const imageBlobsAtCommit = async (artworks: Artwork[], commitSha: string, config: RepoConfig) => {
+  const store = getGalleryStore(config);
+  const blobs = await listBlobShasAtCommit('images', commitSha, config);
+  const paths = new Set(artworks
+    .flatMap(art => [art.imageUrl, art.thumbnailUrl, ...(art.variants || []).map(v => v.url)])
+    .map(url => url && store.pathFromUrl(url))
+    .filter((path): path is string => Boolean(path)));
+  return Array.from(paths)
+    .filter(path => blobs.has(path))
+    .map(path => ({ path, sha: blobs.get(path)! }));
+};
+
+// Commits the whole gallery.json from `commitSha` on top of the branch. Images that
+// version references are restored too; files added since are left in place.
+export const restoreManifest = async (commitSha: string, config: RepoConfig): Promise<GalleryManifest> => {
+  if (!config.token) throw new Error("Authentication required");
+  const old = await fetchManifestForRestore(commitSha, config);
+  const images = await imageBlobsAtCommit(old.artworks, commitSha, config);
+  return updateGalleryManifest(
+    () => old,
+    `Restore gallery from ${commitSha.slice(0, 7)}`,
+    config,
+    {},
+    images
+  );
+};
+
+// Puts one entry back as it was at `commitSha`, replacing the current entry with that id or
+// re-inserting it near its old position. A deleted entry also rejoins the collections it was in.
+export const restoreArtwork = async (artworkId: string, commitSha: string, config: RepoConfig): Promise<Artwork> => {
+  if (!config.token) throw new Error("Authentication required");
+  const old = await fetchManifestForRestore(commitSha, config);
+  const oldIndex = old.artworks.findIndex(art => art.id === artworkId);
+  if (oldIndex === -1) throw new Error("Artwork not found in that version");
+  const restored = old.artworks[oldIndex];
+  const images = await imageBlobsAtCommit([restored], commitSha, config);
+
+  await updateGalleryManifest(current => {
+    const exists = current.artworks.some(art => art.id === artworkId);
+    const artworks = exists
+      ? current.artworks.map(art => art.id === artworkId ? restored : art)
+      : [...current.artworks.slice(0, oldIndex), restored, ...current.artworks.slice(oldIndex)];
+    const formerCollections = new Set(old.collections.filter(col => col.artworkIds.includes(artworkId)).map(col => col.id));
+    const collections = exists ? current.collections : current.collections.map(col =>
+      formerCollections.has(col.id) && !col.artworkIds.includes(artworkId)
+        ? { ...col, artworkIds: [...col.artworkIds, artworkId] }
+        : col
+    );
+    return { ...current, artworks, collections };
+  }, `Restore artwork: ${restored.title}`, config, {}, images);
+
+  return restored;
+};
+
+export const restoreProfile = async (commitSha: string, config: RepoConfig): Promise<void> => {
+  const old = await fetchProfileAtCommit(commitSha, config);
+  if (!old) throw new Error("That version has no profile");
+  await writeJsonFile('profile.json', old, `Restore artist profile from ${commitSha.slice(0, 7)}`, config);
+};
@@ -0,0 +1,202 @@
+import { Artwork, Locale, LocalizedArtworkText } from '../types';
+
+export const SUPPORTED_LOCALES: Locale[] = ['de', 'en'];
+
+// The collection was catalogued in German before translations existed
+export const DEFAULT_CONTENT_LOCALE: Locale = 'de';
+
+// Shown in the language switcher
+export const LOCALE_LABELS: Record<Locale, string> = {
+  de: 'Deutsch',
+  en: 'English',
+};
+
+// Used in Gemini prompts
+export const LOCALE_NAMES: Record<Locale, string> = {
+  de: 'German',
+  en: 'English',
+};
+
+const LOCALE_KEY = 'museai_locale';
+
+export const getInitialLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY) as Locale | null;
+  if (saved && SUPPORTED_LOCALES.includes(saved)) return saved;
+  const browser = navigator.language.slice(0, 2) as Locale;
+  return SUPPORTED_LOCALES.includes(browser) ? browser : DEFAULT_CONTENT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
+
+export const sourceLocaleOf = (art: Artwork): Locale => art.locale || DEFAULT_CONTENT_LOCALE;
+
+// The language most of the collection says it is written in, preferring the default on a tie.
+// Undefined when no entry says, as with everything catalogued before languages were recorded.
+export const mainSourceLocale = (artworks: Artwork[]): Locale | undefined => {
+  const count = (locale: Locale) => artworks.filter(art => art.locale === locale).length;
+  const main = SUPPORTED_LOCALES.reduce((best, locale) => count(locale) > count(best) ? locale : best, DEFAULT_CONTENT_LOCALE);
+  return count(main) > 0 ? main : undefined;
+};
+
+export const baseText = (art: Artwork): LocalizedArtworkText => ({
+  title: art.title,
+  description: art.description,
+  medium: art.medium,
+  tags: art.tags,
+  ...(art.altText ? { altText: art.altText } : {}),
+});
+
+// Returns the artwork with its text fields in `locale`, falling back to the source language
+export const localizeArtwork = (art: Artwork, locale: Locale): Artwork => {
+  if (sourceLocaleOf(art) === locale) return art;
+  const translation = art.translations?.[locale];
+  return translation ? { ...art, ...translation } : art;
+};
+
+// Site locales an artwork has no text for yet
+export const missingLocales = (art: Artwork): Locale[] =>
+  SUPPORTED_LOCALES.filter(locale => locale !== sourceLocaleOf(art) && !art.translations?.[locale]);
+
+// Visitor-facing interface text
+const UI_STRINGS = {
+  en: {
+    home: 'Home',
+    gallery: 'Gallery',
+    about: 'About',
+    artistLogin: 'Artist Login',
+    adminPanel: 'Admin Panel',
+    tagline: 'Fine Art & Photography',
+    welcome: 'Welcome',
+    viewCollection: 'View the Collection',
+    recentWorks: 'Recent Works',
+    searchPlaceholder: 'Search titles, descriptions, media and tags...',
+    searchLabel: 'Search the collection',
+    sortLabel: 'Sort artworks',
+    sortCurated: "Artist's selection",
+    sortNewest: 'Newest first',
+    sortOldest: 'Oldest first',
+    sortTitle: 'Title',
+    sortMedium: 'Medium',
+    worksCount: (shown: number, total: number) => `${shown} of ${total} works`,
+    showAll: 'Show all',
+    noMatches: 'No works match your search.',
+    searchByMeaning: 'By meaning',
+    searchByMeaningHint: 'Find works by mood, colour or subject, e.g. "feels like autumn"',
+    semanticSearchFailed: 'Search by meaning is unavailable right now; showing word matches instead.',
+    searching: 'Searching...',
+    moreLikeThis: 'More like this',
+    emptyTitle: 'No artwork displayed yet',
+    emptyBody: 'The artist is currently curating their collection. Please check back soon or log in to the admin panel to add pieces.',
+    aboutEmpty: 'The artist has not written their biography yet.',
+    loading: 'Loading Gallery...',
+    close: 'Close',
+    language: 'Language',
+    collections: 'Collections',
+    allCollections: 'All collections',
+    collectionWorks: (count: number) => `${count} ${count === 1 ? 'work' : 'works'}`,
+    collectionsEmpty: 'No collections have been published yet.',
+    collectionNotFound: 'This collection does not exist.',
+    available: 'Available',
+    reserved: 'Reserved',
+    sold: 'Sold',
+    notForSale: 'Not for sale',
+    editionOf: (number: number, size: number) => `Edition ${number} of ${size}`,
+    editionSize: (size: number) => `Edition of ${size}`,
+    inquire: 'Inquire about this work',
+    inquiryPurchase: 'Purchase',
+    inquiryCommission: 'Similar commission',
+    inquiryKindLabel: 'I am interested in',
+    yourName: 'Your name',
+    yourEmail: 'Your email',
+    yourMessage: 'Message',
+    send: 'Send inquiry',
+    sending: 'Sending...',
+    cancel: 'Cancel',
+    inquirySent: 'Thank you. The artist will be in touch soon.',
+    inquiryHandoff: 'Your inquiry has been prepared in a new window. Please send it from there.',
+    inquiryFailed: 'Your inquiry could not be sent. Please try again later.',
+    previous: 'Previous work',
+    next: 'Next work',
+    position: (index: number, total: number) => `${index} of ${total}`,
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    resetZoom: 'Fit',
+    slideshow: 'Slideshow',
+    pauseSlideshow: 'Pause slideshow',
+    playSlideshow: 'Resume slideshow',
+    exitSlideshow: 'Exit slideshow',
+  },
+  de: {
+    home: 'Start',
+    gallery: 'Galerie',
+    about: 'Über mich',
+    artistLogin: 'Atelier-Login',
+    adminPanel: 'Verwaltung',
+    tagline: 'Malerei & Fotografie',
+    welcome: 'Willkommen',
+    viewCollection: 'Zur Sammlung',
+    recentWorks: 'Neue Werke',
+    searchPlaceholder: 'Titel, Beschreibungen, Techniken und Schlagworte durchsuchen...',
+    searchLabel: 'Sammlung durchsuchen',
+    sortLabel: 'Werke sortieren',
+    sortCurated: 'Kuratierte Reihenfolge',
+    sortNewest: 'Neueste zuerst',
+    sortOldest: 'Älteste zuerst',
+    sortTitle: 'Titel',
+    sortMedium: 'Technik',
+    worksCount: (shown: number, total: number) => `${shown} von ${total} Werken`,
+    showAll: 'Alle anzeigen',
+    noMatches: 'Keine Werke entsprechen Ihrer Suche.',
+    searchByMeaning: 'Nach Bedeutung',
+    searchByMeaningHint: 'Werke nach Stimmung, Farbe oder Motiv finden, z. B. „fühlt sich nach Herbst an“',
+    semanticSearchFailed: 'Die Suche nach Bedeutung ist gerade nicht verfügbar; es werden Wort-Treffer angezeigt.',
+    searching: 'Suche läuft...',
+    moreLikeThis: 'Ähnliche Werke',
+    emptyTitle: 'Noch keine Werke ausgestellt',
+    emptyBody: 'Die Sammlung wird gerade kuratiert. Schauen Sie bald wieder vorbei.',
+    aboutEmpty: 'Eine Biografie folgt in Kürze.',
+    loading: 'Galerie wird geladen...',
+    close: 'Schließen',
+    language: 'Sprache',
+    collections: 'Serien',
+    allCollections: 'Alle Serien',
+    collectionWorks: (count: number) => `${count} ${count === 1 ? 'Werk' : 'Werke'}`,
+    collectionsEmpty: 'Es wurden noch keine Serien veröffentlicht.',
+    collectionNotFound: 'Diese Serie existiert nicht.',
+    available: 'Verfügbar',
+    reserved: 'Reserviert',
+    sold: 'Verkauft',
+    notForSale: 'Unverkäuflich',
+    editionOf: (number: number, size: number) => `Auflage ${number}/${size}`,
+    editionSize: (size: number) => `Auflage von ${size} Exemplaren`,
+    inquire: 'Anfrage zu diesem Werk',
+    inquiryPurchase: 'Kauf',
+    inquiryCommission: 'Ähnliche Auftragsarbeit',
+    inquiryKindLabel: 'Ich interessiere mich für',
+    yourName: 'Ihr Name',
+    yourEmail: 'Ihre E-Mail-Adresse',
+    yourMessage: 'Nachricht',
+    send: 'Anfrage senden',
+    sending: 'Wird gesendet...',
+    cancel: 'Abbrechen',
+    inquirySent: 'Vielen Dank. Sie erhalten bald eine Antwort.',
+    inquiryHandoff: 'Ihre Anfrage wurde in einem neuen Fenster vorbereitet. Bitte senden Sie sie dort ab.',
+    inquiryFailed: 'Ihre Anfrage konnte nicht gesendet werden. Bitte versuchen Sie es später erneut.',
+    previous: 'Vorheriges Werk',
+    next: 'Nächstes Werk',
+    position: (index: number, total: number) => `${index} von ${total}`,
+    zoomIn: 'Vergrößern',
+    zoomOut: 'Verkleinern',
+    resetZoom: 'Einpassen',
+    slideshow: 'Diashow',
+    pauseSlideshow: 'Diashow anhalten',
+    playSlideshow: 'Diashow fortsetzen',
+    exitSlideshow: 'Diashow beenden',
+  },
+};
+
+export type UiStrings = typeof UI_STRINGS.en;
+
+export const uiStrings = (locale: Locale): UiStrings => UI_STRINGS[locale];
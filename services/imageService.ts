@@ -0,0 +1,176 @@
+import { ImageFormat } from '../types';
+
+// Widths generated for the public site. Larger sizes are skipped for small originals.
+const VARIANT_WIDTHS = [640, 1280, 2048];
+const THUMBNAIL_WIDTH = 320;
+
+const QUALITY: Record<ImageFormat, number> = {
+  avif: 0.6,
+  webp: 0.8,
+  jpeg: 0.85,
+};
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg',
+};
+
+export interface ProcessedImageFile {
+  // Appended to the upload's base path, e.g. "-w1280.webp"
+  suffix: string;
+  blob: Blob;
+  width: number;
+  format: ImageFormat;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  variants: ProcessedImageFile[];
+  thumbnail: ProcessedImageFile;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ImageFormat): Promise<Blob | null> => {
+  return new Promise(resolve => canvas.toBlob(resolve, `image/${format}`, QUALITY[format]));
+};
+
+// Browsers silently fall back to PNG for formats they cannot encode
+const encode = async (canvas: HTMLCanvasElement, format: ImageFormat): Promise<Blob | null> => {
+  const blob = await canvasToBlob(canvas, format);
+  return blob && blob.type === `image/${format}` ? blob : null;
+};
+
+const drawScaled = (bitmap: ImageBitmap, width: number): HTMLCanvasElement => {
+  const height = Math.round(bitmap.height * (width / bitmap.width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+// Re-encodes an upload in the browser. Drawing through a canvas applies the EXIF
+// orientation and drops all metadata (camera, GPS) from the published files.
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const widths = VARIANT_WIDTHS.filter(w => w < bitmap.width);
+    // Always include the original width (capped) so the largest variant is never upscaled
+    widths.push(Math.min(bitmap.width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]));
+    const uniqueWidths = Array.from(new Set(widths)).sort((a, b) => a - b);
+
+    const variants: ProcessedImageFile[] = [];
+    for (const width of uniqueWidths) {
+      const canvas = drawScaled(bitmap, width);
+      for (const format of ['avif', 'webp', 'jpeg'] as ImageFormat[]) {
+        const blob = await encode(canvas, format);
+        if (blob) {
+          variants.push({ suffix: `-w${width}.${EXTENSIONS[format]}`, blob, width, format });
+        }
+      }
+    }
+    if (!variants.some(v => v.format === 'jpeg')) {
+      throw new Error("This browser could not encode JPEG images");
+    }
+
+    const thumbWidth = Math.min(THUMBNAIL_WIDTH, bitmap.width);
+    const thumbBlob = await encode(drawScaled(bitmap, thumbWidth), 'jpeg');
+    if (!thumbBlob) throw new Error("Failed to create thumbnail");
+
+    const largest = uniqueWidths[uniqueWidths.length - 1];
+    return {
+      width: largest,
+      height: Math.round(bitmap.height * (largest / bitmap.width)),
+      variants,
+      thumbnail: { suffix: '-thumb.jpg', blob: thumbBlob, width: thumbWidth, format: 'jpeg' },
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// ----------------------------------------------------------------------
+// Perceptual hashing
+// A 64-bit difference hash (dHash): the image is shrunk to 9x8 greyscale and each
+// bit records whether a pixel is brighter than its right-hand neighbour. Re-encoded,
+// resized or lightly edited copies of the same painting land within a few bits.
+// ----------------------------------------------------------------------
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Maximum differing bits (out of 64) for two images to count as near-duplicates
+export const DUPLICATE_THRESHOLD = 10;
+
+export const computePerceptualHash = async (source: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+
+  try {
+    // Shrink in two steps so the tiny sample averages the whole image instead of aliasing
+    const intermediate = drawScaled(bitmap, 64);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(intermediate, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let nibble = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const isNearDuplicate = (a: string, b: string): boolean => hammingDistance(a, b) <= DUPLICATE_THRESHOLD;
+
+// Fetches a published image so existing entries can be hashed (raw.githubusercontent.com allows CORS)
+export const fetchImageBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load image: ${url}`);
+  return response.blob();
+};
@@ -0,0 +1,93 @@
+import { Inquiry, InquirySettings, InquiryTransportKind, ReceivedInquiry, RepoConfig } from '../types';
+import { fetchInquiryIssues, newInquiryIssueUrl } from './githubService';
+
+// 'sent' means the inquiry reached the artist; 'handoff' means the visitor still has to
+// press send in another window (their mail client or github.com)
+export type InquiryResult = 'sent' | 'handoff';
+
+type InquiryTransport = (inquiry: Inquiry, settings: InquirySettings, config: RepoConfig) => Promise<InquiryResult>;
+
+const inquirySubject = (inquiry: Inquiry) =>
+  `${inquiry.kind === 'commission' ? 'Commission' : 'Purchase'} inquiry: ${inquiry.artworkTitle}`;
+
+const sendViaMailto: InquiryTransport = async (inquiry, settings) => {
+  if (!settings.email) throw new Error("No inquiry email address has been set up");
+  const body = `${inquiry.message}\n\n${inquiry.name} <${inquiry.email}>\nArtwork: ${inquiry.artworkTitle} (${inquiry.artworkId})`;
+  window.location.href = `mailto:${settings.email}?subject=${encodeURIComponent(inquirySubject(inquiry))}&body=${encodeURIComponent(body)}`;
+  return 'handoff';
+};
+
+const sendViaWebhook: InquiryTransport = async (inquiry, settings) => {
+  if (!settings.webhookUrl) throw new Error("No inquiry webhook has been set up");
+  const response = await fetch(settings.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...inquiry, subject: inquirySubject(inquiry) }),
+  });
+  if (!response.ok) throw new Error(`Inquiry webhook responded with ${response.status}`);
+  return 'sent';
+};
+
+const sendViaGitHubIssue: InquiryTransport = async (inquiry, _settings, config) => {
+  window.open(newInquiryIssueUrl(inquiry, config), '_blank', 'noopener');
+  return 'handoff';
+};
+
+const TRANSPORTS: Record<Exclude<InquiryTransportKind, 'none'>, InquiryTransport> = {
+  mailto: sendViaMailto,
+  webhook: sendViaWebhook,
+  github: sendViaGitHubIssue,
+};
+
+export const INQUIRY_TRANSPORT_LABELS: Record<InquiryTransportKind, string> = {
+  none: 'Off',
+  mailto: 'Email (opens the visitor\'s mail app)',
+  webhook: 'Webhook (POSTs JSON to a URL)',
+  github: 'GitHub issue (visitor needs a GitHub account)',
+};
+
+export const isInquiryEnabled = (settings?: InquirySettings): boolean => {
+  if (!settings) return false;
+  switch (settings.transport) {
+    case 'mailto':
+      return Boolean(settings.email);
+    case 'webhook':
+      return Boolean(settings.webhookUrl);
+    case 'github':
+      return true;
+    default:
+      return false;
+  }
+};
+
+export const sendInquiry = async (
+  inquiry: Inquiry,
+  settings: InquirySettings,
+  config: RepoConfig
+): Promise<InquiryResult> => {
+  if (settings.transport === 'none') throw new Error("Inquiries are not enabled");
+  return TRANSPORTS[settings.transport](inquiry, settings, config);
+};
+
+// Webhooks that also answer GET with a JSON array of inquiries (such as the dev server's
+// stand-in) can be read back in the studio; others only deliver
+const fetchWebhookInquiries = async (settings: InquirySettings): Promise<ReceivedInquiry[]> => {
+  if (!settings.webhookUrl) return [];
+  const response = await fetch(settings.webhookUrl, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) throw new Error(`This webhook cannot be read back (HTTP ${response.status}). Check the service it forwards to.`);
+  const data = await response.json();
+  if (!Array.isArray(data)) throw new Error("This webhook cannot be read back. Check the service it forwards to.");
+  return data.map((entry: Inquiry & { id?: string }, idx: number) => ({
+    ...entry,
+    id: entry.id || `webhook-${idx}`,
+    source: 'webhook' as const,
+  }));
+};
+
+// Newest first. Mailto inquiries only ever reach the artist's inbox and are not listed.
+export const listInquiries = async (settings: InquirySettings, config: RepoConfig): Promise<ReceivedInquiry[]> => {
+  let inquiries: ReceivedInquiry[] = [];
+  if (settings.transport === 'github') inquiries = await fetchInquiryIssues(config);
+  if (settings.transport === 'webhook') inquiries = await fetchWebhookInquiries(settings);
+  return inquiries.sort((a, b) => b.createdAt - a.createdAt);
+};
@@ -0,0 +1,40 @@
+import { GalleryStore, RepoConfig } from '../types';
+import { conditionHeaders, createObjectStore, storedObjectFromResponse, throwIfWriteFailed } from './objectStore';
+
+// Served by the dev server (see devGalleryStore in vite.config.ts), which keeps the files
+// in a local folder. Lets the app be developed and tried out without a real repository.
+export const DEFAULT_LOCAL_STORE_URL = '/api/gallery';
+
+const baseUrl = (config: RepoConfig) => (config.local?.url || DEFAULT_LOCAL_STORE_URL).replace(/\/+$/, '');
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+export const createLocalStore = (config: RepoConfig): GalleryStore => {
+  const urlFor = (path: string) => `${baseUrl(config)}/${encodePath(path)}`;
+
+  return createObjectStore({
+    get: async (path) => storedObjectFromResponse(await fetch(urlFor(path), { cache: 'no-store' }), path),
+    put: async (path, body, contentType, condition) => {
+      const response = await fetch(urlFor(path), {
+        method: 'PUT',
+        headers: { 'Content-Type': contentType, ...conditionHeaders(condition) },
+        body,
+      });
+      await throwIfWriteFailed(response, path);
+    },
+    remove: async (path) => {
+      const response = await fetch(urlFor(path), { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error(`Failed to remove ${path} (HTTP ${response.status})`);
+    },
+    publicUrl: urlFor,
+    // The dev server needs no credentials; reachable means writable
+    verifyAccess: async () => {
+      try {
+        const response = await fetch(urlFor('gallery.json'), { method: 'HEAD', cache: 'no-store' });
+        return response.ok || response.status === 404;
+      } catch {
+        return false;
+      }
+    },
+  });
+};
@@ -0,0 +1,119 @@
+import { Artwork, Collection, GalleryManifest, InvalidManifestEntry, StoreFileChanges } from '../types';
+import { artworkErrors, collectionErrors } from './schema';
+
+// Layout version written into gallery.json. Bump it together with a new MIGRATIONS entry.
+//   0: a bare array of artworks
+//   1: { artworks, collections }
+//   2: { schemaVersion, artworks, collections }
+export const MANIFEST_SCHEMA_VERSION = 2;
+
+export const EMPTY_MANIFEST: GalleryManifest = { artworks: [], collections: [] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Early hand-written entries often leave out text fields that the studio always fills;
+// they are completed here rather than rejected
+const withLegacyTextFields = (entry: unknown): unknown => isObject(entry)
+  ? {
+      ...entry,
+      description: entry.description ?? '',
+      medium: entry.medium ?? '',
+      tags: entry.tags ?? [],
+    }
+  : entry;
+
+// Each entry upgrades raw gallery.json contents from version `key` to `key + 1`
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: (data) => ({ artworks: Array.isArray(data) ? data : [], collections: [] }),
+  1: (data) => {
+    const layout = isObject(data) ? data : {};
+    return {
+      schemaVersion: 2,
+      artworks: Array.isArray(layout.artworks) ? layout.artworks.map(withLegacyTextFields) : [],
+      collections: Array.isArray(layout.collections) ? layout.collections : [],
+    };
+  },
+};
+
+export const manifestVersionOf = (data: unknown): number => {
+  if (Array.isArray(data)) return 0;
+  if (isObject(data) && typeof data.schemaVersion === 'number') return data.schemaVersion;
+  return 1;
+};
+
+const migrateManifest = (data: unknown): unknown => {
+  let migrated = data;
+  for (let version = manifestVersionOf(data); version < MANIFEST_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+// Splits a stored array into entries that pass `errorsOf` and reports on the rest
+const validEntries = <T extends { id: string }>(
+  kind: InvalidManifestEntry['kind'],
+  values: unknown,
+  errorsOf: (value: unknown) => string[],
+  invalid: InvalidManifestEntry[]
+): T[] => {
+  if (!Array.isArray(values)) return [];
+  const seenIds = new Set<string>();
+  const valid: T[] = [];
+  values.forEach((value, index) => {
+    const errors = errorsOf(value);
+    const id = isObject(value) && typeof value.id === 'string' ? value.id : undefined;
+    if (errors.length === 0 && seenIds.has(id!)) errors.push('id: duplicate of an earlier entry');
+    if (errors.length > 0) {
+      invalid.push({ kind, index, id, value, errors });
+      return;
+    }
+    seenIds.add(id!);
+    valid.push(value as T);
+  });
+  return valid;
+};
+
+// Accepts every gallery.json layout, upgrading older ones. Entries that fail validation
+// are left out of the result and listed in `invalid`, so one bad entry never breaks the site.
+// Layouts newer than this app are read as if they were the current one.
+export const parseManifest = (data: unknown): GalleryManifest => {
+  if (!Array.isArray(data) && !isObject(data)) return EMPTY_MANIFEST;
+  const migrated = migrateManifest(data) as Record<string, unknown>;
+
+  const invalid: InvalidManifestEntry[] = [];
+  const artworks = validEntries<Artwork>('artwork', migrated.artworks, artworkErrors, invalid);
+  const collections = validEntries<Collection>('collection', migrated.collections, collectionErrors, invalid);
+  if (invalid.length > 0) console.warn(`Skipped ${invalid.length} invalid gallery.json entries`, invalid);
+  return invalid.length > 0 ? { artworks, collections, invalid } : { artworks, collections };
+};
+
+// For read-modify-write: a newer layout could carry meaning this app would silently discard
+export const parseManifestForUpdate = (data: unknown): GalleryManifest => {
+  const version = manifestVersionOf(data);
+  if (version > MANIFEST_SCHEMA_VERSION) {
+    throw new Error(`gallery.json uses schema version ${version}, but this app only knows up to ${MANIFEST_SCHEMA_VERSION}. Update the app before editing the gallery.`);
+  }
+  return parseManifest(data);
+};
+
+// Always writes the latest layout. Invalid entries are written back verbatim after the valid ones.
+export const serializeManifest = (manifest: GalleryManifest): string => {
+  const invalidValues = (kind: InvalidManifestEntry['kind']) =>
+    (manifest.invalid || []).filter(entry => entry.kind === kind).map(entry => entry.value);
+  return JSON.stringify({
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    artworks: [...manifest.artworks, ...invalidValues('artwork')],
+    collections: [...manifest.collections, ...invalidValues('collection')],
+  }, null, 2);
+};
+
+// How often a manifest write is re-applied after losing a race with another writer
+export const MAX_WRITE_ATTEMPTS = 4;
+
+// Thrown by stores when the manifest changed between reading and writing it
+export class ManifestConflictError extends Error {}
+
+// Store paths a manifest write removes, given the manifest its update was applied to
+export const pathsToRemove = (files: StoreFileChanges, manifest: GalleryManifest): string[] =>
+  typeof files.remove === 'function' ? files.remove(manifest) : files.remove || [];
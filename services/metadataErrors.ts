@@ -0,0 +1,37 @@
+export type MetadataErrorKind = 'auth' | 'quota' | 'unavailable' | 'safety' | 'malformed' | 'network' | 'cancelled' | 'unknown';
+
+export const METADATA_ERROR_MESSAGES: Record<MetadataErrorKind, string> = {
+  auth: "Gemini rejected the API key. Check GEMINI_API_KEY in .env.local.",
+  quota: "Gemini's rate limit or quota was reached. Wait a minute and try again.",
+  unavailable: "Gemini is temporarily unavailable. Try again in a moment.",
+  safety: "Gemini declined to describe this image. Fill in the fields yourself.",
+  malformed: "Gemini's answer could not be read. Try again, or fill in the fields yourself.",
+  network: "Could not reach Gemini. Check your connection.",
+  cancelled: "Cancelled.",
+  unknown: "Gemini could not complete the request.",
+};
+
+// Failures worth another attempt after a pause; the others need the artist to change something
+const RETRYABLE_KINDS: MetadataErrorKind[] = ['quota', 'unavailable', 'network', 'malformed'];
+
+// Thrown by every metadata provider, so the studio can say what went wrong and whether retrying helps
+export class MetadataError extends Error {
+  kind: MetadataErrorKind;
+  // How long the service asked us to wait, when it said
+  retryAfterMs?: number;
+
+  constructor(kind: MetadataErrorKind, message: string = METADATA_ERROR_MESSAGES[kind], retryAfterMs?: number) {
+    super(message);
+    this.name = 'MetadataError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isRetryable = (error: MetadataError): boolean => RETRYABLE_KINDS.includes(error.kind);
+
+export const isCancelled = (err: unknown): boolean => err instanceof MetadataError && err.kind === 'cancelled';
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw new MetadataError('cancelled');
+};
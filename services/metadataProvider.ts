@@ -0,0 +1,191 @@
+import {
+  ArtworkContext,
+  CuratorSettings,
+  EmbeddingTask,
+  GeneratedMetadata,
+  Locale,
+  LocalizedArtworkText,
+  MetadataField,
+  MetadataProvider,
+  MetadataProviderKind,
+  MetadataRequest,
+} from '../types';
+import { EMBEDDING_DIMENSIONS, geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { DEFAULT_CURATOR_SETTINGS } from './curatorVoice';
+import { DEFAULT_CONTENT_LOCALE } from './i18n';
+import { generatedMetadataErrors, localizedTextErrors, metadataFieldErrors } from './schema';
+import { MetadataError, isRetryable, throwIfAborted } from './metadataErrors';
+
+// ----------------------------------------------------------------------
+// Placard text for the studio and embeddings for search by meaning, from
+// whichever provider the build chose. Every call is retried with exponential backoff on rate limits, outages
+// and unreadable answers, waits out a quota cool-down shared by all calls,
+// can be cancelled with an AbortSignal, and only returns answers that pass
+// the same schema checks as gallery.json.
+// ----------------------------------------------------------------------
+
+const PROVIDERS: Record<MetadataProviderKind, MetadataProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const METADATA_PROVIDER_LABELS: Record<MetadataProviderKind, string> = {
+  gemini: 'Gemini',
+  mock: 'Offline mock',
+};
+
+// Set with METADATA_PROVIDER in .env.local; see vite.config.ts
+export const metadataProviderKind = (): MetadataProviderKind =>
+  process.env.METADATA_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// After a rate-limit answer every call waits until this time, so parallel analyses
+// back off together instead of each hitting the limit again
+let coolDownUntil = 0;
+
+// The abort listener is removed once the timer fires, so a long-lived signal does not collect one per wait
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new MetadataError('cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Doubling delay with jitter, or the wait the service asked for
+const retryDelay = (error: MetadataError, attempt: number) =>
+  Math.min(error.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() / 2), MAX_RETRY_DELAY_MS);
+
+const withRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (coolDownUntil > Date.now()) await sleep(coolDownUntil - Date.now(), signal);
+    throwIfAborted(signal);
+    try {
+      return await run();
+    } catch (err) {
+      const error = err instanceof MetadataError ? err : new MetadataError('unknown', err instanceof Error ? err.message : undefined);
+      if (signal?.aborted) throw new MetadataError('cancelled');
+      if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) throw error;
+      const wait = retryDelay(error, attempt);
+      if (error.kind === 'quota') coolDownUntil = Math.max(coolDownUntil, Date.now() + wait);
+      console.warn(`Metadata request failed (${error.kind}), attempt ${attempt} of ${MAX_ATTEMPTS}; retrying in ${Math.round(wait)} ms`);
+      await sleep(wait, signal);
+    }
+  }
+};
+
+// Throwing inside the retried call means an answer that breaks the schema is asked for again
+const checked = <T>(value: unknown, errors: string[]): T => {
+  if (errors.length > 0) throw new MetadataError('malformed', `Unexpected answer from ${METADATA_PROVIDER_LABELS[metadataProviderKind()]}: ${errors.join('; ')}`);
+  return value as T;
+};
+
+const provider = (): MetadataProvider => PROVIDERS[metadataProviderKind()];
+
+const isPlausibleYear = (year: number) => Number.isInteger(year) && year >= 1900 && year <= new Date().getFullYear();
+
+export const generateArtworkMetadata = async (
+  base64Image: string,
+  mimeType: string,
+  language: Locale = DEFAULT_CONTENT_LOCALE,
+  curator: CuratorSettings = DEFAULT_CURATOR_SETTINGS,
+  context: ArtworkContext = {},
+  signal?: AbortSignal
+): Promise<GeneratedMetadata> => {
+  const request: MetadataRequest = { language, curator, context, signal };
+  const metadata = await withRetry(async () => {
+    const answer = await provider().generateMetadata(base64Image, mimeType, request);
+    return checked<GeneratedMetadata>(answer, generatedMetadataErrors(answer));
+  }, signal);
+
+  // Dimensions, price, availability and editions cannot be seen in a photo and are left to the artist
+  if (metadata.year !== undefined && !isPlausibleYear(metadata.year)) delete metadata.year;
+  // The artist knows better than a date read off the canvas
+  if (context.year) metadata.year = context.year;
+  return metadata;
+};
+
+// Several rewrites of one placard field, written against the rest of the current placard
+// so the artist can pick one without the other fields changing
+export const generateFieldAlternatives = async <F extends MetadataField>(
+  base64Image: string,
+  mimeType: string,
+  field: F,
+  current: LocalizedArtworkText,
+  language: Locale = DEFAULT_CONTENT_LOCALE,
+  curator: CuratorSettings = DEFAULT_CURATOR_SETTINGS,
+  context: ArtworkContext = {},
+  count = 3,
+  signal?: AbortSignal
+): Promise<LocalizedArtworkText[F][]> => {
+  const request: MetadataRequest = { language, curator, context, signal };
+  const alternatives = await withRetry(async () => {
+    const answer = await provider().generateFieldAlternatives(base64Image, mimeType, field, current, count, request);
+    const errors = Array.isArray(answer)
+      ? answer.flatMap((value, idx) => value === undefined
+          ? [`#${idx + 1} missing`]
+          : metadataFieldErrors(field, value).map(error => `#${idx + 1} ${error}`))
+      : ['expected a list of alternatives'];
+    return checked<LocalizedArtworkText[F][]>(answer, errors);
+  }, signal);
+  return alternatives.slice(0, count);
+};
+
+// Translates placard text into each target language, keeping the curator's tone
+export const translateArtworkText = async (
+  text: LocalizedArtworkText,
+  from: Locale,
+  to: Locale[],
+  curator: CuratorSettings = DEFAULT_CURATOR_SETTINGS,
+  signal?: AbortSignal
+): Promise<Partial<Record<Locale, LocalizedArtworkText>>> => {
+  if (to.length === 0) return {};
+  return withRetry(async () => {
+    const answer = await provider().translate(text, from, to, curator, signal);
+    const errors = typeof answer === 'object' && answer !== null
+      ? to.flatMap(locale => localizedTextErrors((answer as Record<string, unknown>)[locale]).map(error => `${locale}: ${error}`))
+      : ['expected translations keyed by language'];
+    return checked<Partial<Record<Locale, LocalizedArtworkText>>>(answer, errors);
+  }, signal);
+};
+
+// Unit-length vectors, one per text, so similarity is a plain dot product. Shortened
+// gemini-embedding-001 outputs are not unit length by default.
+export const embedTexts = async (texts: string[], taskType: EmbeddingTask, signal?: AbortSignal): Promise<number[][]> => {
+  if (texts.length === 0) return [];
+  const vectors = await withRetry(async () => {
+    const answer = await provider().embed(texts, taskType, signal);
+    const errors = Array.isArray(answer) && answer.length === texts.length
+      ? answer.flatMap((vector, idx) =>
+          Array.isArray(vector) && vector.length === EMBEDDING_DIMENSIONS && vector.every(value => typeof value === 'number' && Number.isFinite(value))
+            ? []
+            : [`#${idx + 1} is not a vector of ${EMBEDDING_DIMENSIONS} numbers`])
+      : [`expected ${texts.length} embeddings`];
+    return checked<number[][]>(answer, errors);
+  }, signal);
+  return vectors.map(vector => {
+    const length = Math.hypot(...vector) || 1;
+    return vector.map(value => value / length);
+  });
+};
+
+// What the image looks like in plain words, embedded next to the placard text
+export const describeArtworkForSearch = async (
+  base64Image: string,
+  mimeType: string,
+  curator: CuratorSettings = DEFAULT_CURATOR_SETTINGS,
+  signal?: AbortSignal
+): Promise<string> =>
+  withRetry(async () => {
+    const answer = await provider().describeForSearch(base64Image, mimeType, curator, signal);
+    return checked<string>(answer, typeof answer === 'string' && answer.trim() ? [] : ['expected a description']);
+  }, signal);
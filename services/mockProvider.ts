@@ -0,0 +1,123 @@
+import { LocalizedArtworkText, MetadataField, MetadataProvider } from '../types';
+import { curatorTagCount } from './curatorVoice';
+import { EMBEDDING_DIMENSIONS } from './geminiService';
+import { MetadataError, throwIfAborted } from './metadataErrors';
+
+// ----------------------------------------------------------------------
+// Offline stand-in for Gemini, chosen with METADATA_PROVIDER=mock. Answers
+// are made up from word lists but depend only on the image and the request,
+// so the same upload always gets the same placard, and the studio's upload,
+// regenerate, translate and search-index flows can be worked on without a
+// key or network.
+// ----------------------------------------------------------------------
+
+// Long enough to see loading states and try the cancel buttons
+const MOCK_LATENCY_MS = 600;
+
+const ADJECTIVES = ['Quiet', 'Amber', 'Drifting', 'Silver', 'Hidden', 'Late', 'Salt', 'Folded', 'Distant', 'Small'];
+const NOUNS = ['Harbour', 'Morning', 'Garden', 'Threshold', 'Tide', 'Orchard', 'Window', 'Field', 'Echo', 'Meridian'];
+const MEDIUMS = ['Oil on Canvas', 'Watercolour on Paper', 'Charcoal on Paper', 'Acrylic on Panel', 'Digital Photography', 'Gouache on Board'];
+const TAGS = ['landscape', 'light', 'abstract', 'portrait', 'texture', 'colour', 'stillness', 'nature', 'urban', 'figurative', 'minimal', 'memory', 'sea', 'dusk', 'geometry'];
+
+// FNV-1a over the request, so answers are stable but differ between images
+const seedOf = (...parts: string[]): number => {
+  let hash = 0x811c9dc5;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      hash ^= part.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(list: T[], seed: number, offset = 0): T => list[(seed + offset * 7) % list.length];
+
+// Only the start and end of a base64 image are read; enough to tell uploads apart cheaply
+const imageKey = (base64Image: string) => `${base64Image.length}:${base64Image.slice(0, 64)}:${base64Image.slice(-64)}`;
+
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new MetadataError('cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, MOCK_LATENCY_MS);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Each word counts towards one hashed dimension, so texts sharing words come out close
+// and search by meaning behaves like a crude keyword search
+const mockVector = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    vector[seedOf(word) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const length = Math.hypot(...vector) || 1;
+  return vector.map(value => value / length);
+};
+
+const mockValue = (field: MetadataField, seed: number, tagCount: number, series?: string): LocalizedArtworkText[MetadataField] => {
+  switch (field) {
+    case 'title':
+      return `${pick(ADJECTIVES, seed)} ${pick(NOUNS, seed >>> 8)}`;
+    case 'medium':
+      return pick(MEDIUMS, seed);
+    case 'tags':
+      return Array.from(new Set(Array.from({ length: tagCount }, (_, i) => pick(TAGS, seed >>> 4, i))));
+    case 'altText':
+      return `${pick(MEDIUMS, seed)} showing a ${pick(NOUNS, seed >>> 8).toLowerCase()} in muted colours. Placeholder alt text.`;
+    case 'description':
+      return `A ${pick(ADJECTIVES, seed).toLowerCase()} study of ${pick(NOUNS, seed >>> 8).toLowerCase()} and light`
+        + `${series ? `, from the series "${series}"` : ''}. Placeholder text from the offline mock provider.`;
+  }
+};
+
+export const mockProvider: MetadataProvider = {
+  generateMetadata: async (base64Image, _mimeType, { language, curator, context, signal }) => {
+    await delay(signal);
+    const seed = seedOf(imageKey(base64Image), language, curator.voice);
+    const tagCount = curatorTagCount(curator);
+    return {
+      title: mockValue('title', seed, tagCount),
+      description: mockValue('description', seed, tagCount, context.series),
+      medium: mockValue('medium', seed, tagCount),
+      tags: mockValue('tags', seed, tagCount),
+      altText: mockValue('altText', seed, tagCount),
+    };
+  },
+
+  generateFieldAlternatives: async (base64Image, _mimeType, field, current, count, { language, curator, context, signal }) => {
+    await delay(signal);
+    const tagCount = curatorTagCount(curator);
+    return Array.from({ length: count }, (_, i) =>
+      mockValue(field, seedOf(imageKey(base64Image), language, field, JSON.stringify(current[field]), String(i)), tagCount, context.series)
+    );
+  },
+
+  translate: async (text, _from, to, _curator, signal) => {
+    await delay(signal);
+    return Object.fromEntries(to.map(locale => [locale, {
+      title: `${text.title} [${locale}]`,
+      description: `[${locale}] ${text.description}`,
+      medium: text.medium,
+      tags: text.tags.map(tag => `${tag}-${locale}`),
+      ...(text.altText ? { altText: `[${locale}] ${text.altText}` } : {}),
+    }]));
+  },
+
+  embed: async (texts, _taskType, signal) => {
+    await delay(signal);
+    return texts.map(mockVector);
+  },
+
+  describeForSearch: async (base64Image, _mimeType, _curator, signal) => {
+    await delay(signal);
+    const seed = seedOf(imageKey(base64Image));
+    return `A ${pick(ADJECTIVES, seed).toLowerCase()} ${pick(NOUNS, seed >>> 8).toLowerCase()} in ${pick(MEDIUMS, seed).toLowerCase()}, `
+      + `${pick(TAGS, seed >>> 4)} and ${pick(TAGS, seed >>> 4, 1)}. Placeholder description from the offline mock provider.`;
+  },
+};
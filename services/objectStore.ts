@@ -0,0 +1,117 @@
+import { EmbeddingIndex, GalleryManifest, GalleryStore, SiteSettings, StoreFileChanges } from '../types';
+import { EMPTY_MANIFEST, MAX_WRITE_ATTEMPTS, ManifestConflictError, parseManifest, parseManifestForUpdate, pathsToRemove, serializeManifest } from './manifest';
+import { parseProfile } from './schema';
+
+// ----------------------------------------------------------------------
+// Stores built on plain key/value objects (the dev server, S3 buckets).
+// There are no multi-file commits, so writes are ordered instead: new images
+// go up before the manifest that references them, and replaced images are
+// deleted only after the manifest has stopped referencing them. Concurrent
+// manifest writes are caught with ETag preconditions and re-applied.
+// ----------------------------------------------------------------------
+
+export interface StoredObject {
+  data: unknown;
+  etag: string | null;
+}
+
+// `null` means "must not exist yet"; a string means "must still have this ETag"
+export type WriteCondition = { etag: string | null };
+
+export interface ObjectStoreClient {
+  // Resolves null when the object does not exist; throws on any other failure
+  get(path: string): Promise<StoredObject | null>;
+  // Throws ManifestConflictError when `condition` no longer holds
+  put(path: string, body: Blob | string, contentType: string, condition?: WriteCondition): Promise<void>;
+  remove(path: string): Promise<void>;
+  publicUrl(path: string): string;
+  verifyAccess(): Promise<boolean>;
+}
+
+const JSON_TYPE = 'application/json';
+
+const readJsonObject = async <T>(client: ObjectStoreClient, path: string): Promise<T | null> => {
+  try {
+    const stored = await client.get(path);
+    const data = stored?.data;
+    return data && typeof data === 'object' && !Array.isArray(data) ? data as T : null;
+  } catch (error) {
+    console.warn(`Error reading ${path}:`, error);
+    return null;
+  }
+};
+
+export const createObjectStore = (client: ObjectStoreClient): GalleryStore => {
+  const writeManifest = async (
+    update: (manifest: GalleryManifest) => GalleryManifest,
+    _message: string,
+    files: StoreFileChanges = {}
+  ): Promise<GalleryManifest> => {
+    await Promise.all((files.add || []).map(file => client.put(file.path, file.blob, file.blob.type)));
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await client.get('gallery.json');
+      const manifest = current ? parseManifestForUpdate(current.data) : EMPTY_MANIFEST;
+      const updated = update(manifest);
+      try {
+        await client.put('gallery.json', serializeManifest(updated), JSON_TYPE, { etag: current?.etag ?? null });
+      } catch (e) {
+        if (e instanceof ManifestConflictError && attempt < MAX_WRITE_ATTEMPTS) {
+          console.warn(`Gallery changed during save, retrying (${attempt}/${MAX_WRITE_ATTEMPTS})`);
+          continue;
+        }
+        throw e;
+      }
+
+      // A file left behind by a failed delete is only clutter, never a broken reference
+      await Promise.all(pathsToRemove(files, manifest).map(path =>
+        client.remove(path).catch(err => console.warn(`Could not remove ${path}`, err))
+      ));
+      return updated;
+    }
+  };
+
+  const prefix = client.publicUrl('');
+
+  return {
+    readManifest: async () => {
+      const stored = await client.get('gallery.json');
+      return stored ? parseManifest(stored.data) : EMPTY_MANIFEST;
+    },
+    writeManifest,
+    putImage: (path, blob) => client.put(path, blob, blob.type),
+    deleteImage: (path) => client.remove(path),
+    readProfile: async () => parseProfile(await readJsonObject<unknown>(client, 'profile.json')),
+    writeProfile: (profile) => client.put('profile.json', JSON.stringify(profile, null, 2), JSON_TYPE),
+    readSettings: () => readJsonObject<SiteSettings>(client, 'settings.json'),
+    writeSettings: (settings) => client.put('settings.json', JSON.stringify(settings, null, 2), JSON_TYPE),
+    readEmbeddings: () => readJsonObject<EmbeddingIndex>(client, 'embeddings.json'),
+    writeEmbeddings: (index) => client.put('embeddings.json', JSON.stringify(index, null, 2), JSON_TYPE),
+    publicUrl: client.publicUrl,
+    pathFromUrl: (url) => url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null,
+    verifyAccess: client.verifyAccess,
+  };
+};
+
+// Reads a response as a StoredObject, mapping 404 to null
+export const storedObjectFromResponse = async (response: Response, path: string): Promise<StoredObject | null> => {
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Failed to read ${path} (HTTP ${response.status})`);
+  return { data: await response.json(), etag: response.headers.get('ETag') };
+};
+
+// Precondition headers for a conditional write
+export const conditionHeaders = (condition?: WriteCondition): Record<string, string> => {
+  if (!condition) return {};
+  return condition.etag === null ? { 'If-None-Match': '*' } : { 'If-Match': condition.etag };
+};
+
+// 412 is the standard answer to a failed precondition; S3 also answers 409 while
+// two conditional writes to the same key are in flight
+export const throwIfWriteFailed = async (response: Response, path: string): Promise<void> => {
+  if (response.ok) return;
+  if (response.status === 412 || response.status === 409) {
+    throw new ManifestConflictError(`${path} was changed by someone else`);
+  }
+  throw new Error(`Failed to write ${path} (HTTP ${response.status})`);
+};
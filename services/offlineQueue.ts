@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CuratorSettings, RepoConfig } from '../types';
+import { ArtworkUpload, canWrite, fetchGallery, publishArtworks, storeKey } from './galleryStore';
+import { indexPublishedArtworks } from './semanticSearch';
+
+// Publishes made without a connection are kept in IndexedDB, which can store the
+// processed image Blobs as they are, and replayed once the browser is back online.
+
+const DB_NAME = 'museai-offline';
+const DB_VERSION = 1;
+const STORE = 'publishes';
+
+export interface QueuedPublish {
+  id: string;
+  // The store the batch was meant for, so it is never replayed into another one
+  store: string;
+  queuedAt: number;
+  uploads: ArtworkUpload[];
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  return requestToPromise(request);
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export const enqueuePublish = async (uploads: ArtworkUpload[], config: RepoConfig): Promise<QueuedPublish> => {
+  const entry: QueuedPublish = { id: crypto.randomUUID(), store: storeKey(config), queuedAt: Date.now(), uploads };
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+// Oldest first, so batches land in the order they were published
+export const listQueuedPublishes = async (config: RepoConfig): Promise<QueuedPublish[]> => {
+  const all = await withStore<QueuedPublish[]>('readonly', store => store.getAll());
+  return all.filter(entry => entry.store === storeKey(config)).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const removeQueuedPublish = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Commits each queued batch in turn, removing it once GitHub has it. Stops at the first
+// failure so the remaining batches stay queued for the next attempt. Artwork ids are fixed
+// when a batch is queued, so they double as idempotency keys: a batch that was published
+// but could not be removed from the queue is not published a second time.
+export const replayQueuedPublishes = async (
+  config: RepoConfig,
+  curator: CuratorSettings | undefined,
+  onProgress: (done: number, total: number) => void
+): Promise<number> => {
+  const queued = await listQueuedPublishes(config);
+  for (const [idx, entry] of queued.entries()) {
+    onProgress(idx, queued.length);
+    const existingIds = new Set((await fetchGallery(config)).artworks.map(art => art.id));
+    const uploads = entry.uploads.filter(upload => !existingIds.has(upload.artwork.id));
+    const published = await publishArtworks(uploads, config);
+    await removeQueuedPublish(entry.id);
+    indexPublishedArtworks(uploads, published, config, curator);
+  }
+  onProgress(queued.length, queued.length);
+  return queued.length;
+};
+
+export const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+export interface OfflinePublishQueue {
+  pending: QueuedPublish[];
+  isOnline: boolean;
+  isReplaying: boolean;
+  progress: string;
+  error: string | null;
+  enqueue: (uploads: ArtworkUpload[]) => Promise<void>;
+  replay: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+// Keeps the queue in sync with IndexedDB and replays it whenever the connection returns
+export const useOfflinePublishQueue = (
+  config: RepoConfig,
+  curator: CuratorSettings | undefined,
+  onPublished: () => void
+): OfflinePublishQueue => {
+  const isOnline = useOnlineStatus();
+  const [pending, setPending] = useState<QueuedPublish[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // The online event and a manual retry can arrive together; only one replay may run
+  const replayingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPending(await listQueuedPublishes(config));
+    } catch (err) {
+      console.warn("Could not read the offline publish queue", err);
+    }
+  }, [storeKey(config)]);
+
+  const replay = useCallback(async () => {
+    if (!canWrite(config) || !navigator.onLine || replayingRef.current) return;
+    replayingRef.current = true;
+    setIsReplaying(true);
+    setError(null);
+    try {
+      const published = await replayQueuedPublishes(config, curator, (done, total) => {
+        setProgress(done < total ? `Publishing queued batch ${done + 1} of ${total}...` : '');
+      });
+      if (published > 0) onPublished();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to publish queued artworks");
+    } finally {
+      setProgress('');
+      replayingRef.current = false;
+      setIsReplaying(false);
+      refresh();
+    }
+  }, [config, curator, onPublished, refresh]);
+
+  const enqueue = useCallback(async (uploads: ArtworkUpload[]) => {
+    await enqueuePublish(uploads, config);
+    await refresh();
+  }, [config, refresh]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueuedPublish(id);
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (isOnline && canWrite(config)) replay();
+  }, [isOnline, canWrite(config)]);
+
+  return { pending, isOnline, isReplaying, progress, error, enqueue, replay, discard };
+};
@@ -0,0 +1,33 @@
+import { PrerenderedData, ViewMode } from '../types';
+import { Route } from './router';
+import { ABOUT_PAGE_PATH, artworkPagePath } from './seo';
+
+// Element holding the PrerenderedData snapshot as JSON, next to the app's root
+export const PRERENDERED_DATA_ID = 'prerendered-data';
+
+// The pre-rendered page that shows exactly `route`, if there is one. Filtered views,
+// the gallery and the studio are only ever rendered in the browser.
+export const prerenderedPathOf = (route: Route): string | null => {
+  const hasFilters = Boolean(route.query || route.tag || route.sort || route.collection || route.semantic);
+  switch (route.view) {
+    case ViewMode.HOME:
+      return '';
+    case ViewMode.ABOUT:
+      return ABOUT_PAGE_PATH;
+    case ViewMode.GALLERY:
+      return route.artworkId && !hasFilters ? artworkPagePath(route.artworkId) : null;
+    default:
+      return null;
+  }
+};
+
+export const readPrerenderedData = (): PrerenderedData | null => {
+  const element = document.getElementById(PRERENDERED_DATA_ID);
+  if (!element?.textContent) return null;
+  try {
+    return JSON.parse(element.textContent);
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+};
@@ -0,0 +1,25 @@
+// Service worker registration and messages. The worker itself lives in public/sw.js so
+// it is served unbundled from the site root.
+
+const GALLERY_DATA_UPDATED = 'gallery-data-updated';
+
+// Production only: in development the worker would cache Vite's on-demand modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => console.warn("Service worker registration failed", err));
+  });
+};
+
+// The worker answers gallery data from its cache first; this fires when the copy it
+// fetched in the background turned out to be newer. Returns an unsubscribe function.
+export const onGalleryDataUpdated = (callback: () => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === GALLERY_DATA_UPDATED) callback();
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
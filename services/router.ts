@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { GalleryFilters, GallerySort, ViewMode } from '../types';
+import { SORT_OPTIONS } from './galleryFilters';
+
+// Hash-based routing so deep links work on static hosts (GitHub Pages) without server rewrites.
+// Routes:
+//   #/                -> Home
+//   #/gallery         -> Gallery
+//   #/artwork/:id     -> Gallery with the lightbox open
+//   #/tag/:tag        -> Gallery filtered by tag
+//   #/collections     -> Collections index
+//   #/collection/:id  -> Gallery restricted to one collection
+// Gallery routes carry search and sort as query params (?q=herbst&sort=title), so a
+// filtered view, and an artwork opened from it, can be shared. &match=meaning switches
+// the search from words to meaning.
+//   #/about           -> About
+//   #/studio          -> Artist login / Admin panel
+// The pages pre-rendered at build time (entry-server.tsx) are real paths, about/ and
+// artwork/:id/, read as the matching hash route until the app navigates away from them.
+
+export interface Route extends GalleryFilters {
+  view: ViewMode;
+  artworkId?: string;
+}
+
+const parseFilters = (search: string): GalleryFilters => {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort') as GallerySort | null;
+  return {
+    query: params.get('q') || undefined,
+    tag: params.get('tag') || undefined,
+    collection: params.get('collection') || undefined,
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : undefined,
+    semantic: params.get('match') === 'meaning' || undefined,
+  };
+};
+
+interface HistoryState {
+  // Set when the app pushed this entry itself, so closing a lightbox can step back instead of adding history
+  inApp?: boolean;
+}
+
+const ROUTE_CHANGE_EVENT = 'museai:routechange';
+
+export const parseHash = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [section, ...rest] = path.split('/').filter(Boolean);
+  const param = rest.length > 0 ? decodeURIComponent(rest.join('/')) : undefined;
+  const filters = parseFilters(search);
+
+  switch (section) {
+    case undefined:
+      return { view: ViewMode.HOME };
+    case 'gallery':
+      return { view: ViewMode.GALLERY, ...filters };
+    case 'artwork':
+      return { view: ViewMode.GALLERY, ...filters, artworkId: param };
+    case 'tag':
+      return { view: ViewMode.GALLERY, ...filters, tag: param || filters.tag };
+    case 'collections':
+      return { view: ViewMode.COLLECTIONS };
+    case 'collection':
+      return { view: ViewMode.GALLERY, ...filters, collection: param || filters.collection };
+    case 'about':
+      return { view: ViewMode.ABOUT };
+    case 'studio':
+      return { view: ViewMode.ADMIN };
+    default:
+      return { view: ViewMode.HOME };
+  }
+};
+
+// The hash wins once the app has navigated; without one the path names a pre-rendered page
+export const parseLocation = (location: { hash: string; pathname: string }, base: string = import.meta.env.BASE_URL): Route => {
+  if (location.hash) return parseHash(location.hash);
+  return parseHash(`#/${location.pathname.startsWith(base) ? location.pathname.slice(base.length) : ''}`);
+};
+
+export const routeToHash = (route: Route): string => {
+  switch (route.view) {
+    case ViewMode.GALLERY: {
+      const params = new URLSearchParams();
+      if (route.query) params.set('q', route.query);
+      if (route.semantic) params.set('match', 'meaning');
+      // The collection, then the tag, lives in the path unless something more specific occupies it
+      if (route.collection && route.artworkId) params.set('collection', route.collection);
+      if (route.tag && (route.artworkId || route.collection)) params.set('tag', route.tag);
+      if (route.sort) params.set('sort', route.sort);
+      const search = params.toString() ? `?${params.toString()}` : '';
+
+      if (route.artworkId) return `#/artwork/${encodeURIComponent(route.artworkId)}${search}`;
+      if (route.collection) return `#/collection/${encodeURIComponent(route.collection)}${search}`;
+      if (route.tag) return `#/tag/${encodeURIComponent(route.tag)}${search}`;
+      return `#/gallery${search}`;
+    }
+    case ViewMode.COLLECTIONS:
+      return '#/collections';
+    case ViewMode.ABOUT:
+      return '#/about';
+    case ViewMode.ADMIN:
+    case ViewMode.LOGIN:
+      return '#/studio';
+    case ViewMode.HOME:
+    default:
+      return '#/';
+  }
+};
+
+export const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+  const hash = routeToHash(route);
+  if (hash === window.location.hash) return;
+
+  const state: HistoryState = { inApp: true };
+  // Relative to the site root, so leaving a pre-rendered page does not keep its path
+  const url = `${import.meta.env.BASE_URL}${hash}`;
+  if (options.replace) {
+    window.history.replaceState(state, '', url);
+  } else {
+    window.history.pushState(state, '', url);
+  }
+  // pushState/replaceState do not fire hashchange, so notify listeners ourselves
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+// Returns to the previous in-app entry if there is one, otherwise replaces the current entry with the fallback
+export const navigateBack = (fallback: Route) => {
+  const state = window.history.state as HistoryState | null;
+  if (state?.inApp) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
+
+// `initialRoute` stands in for the location when pre-rendering, where there is no window
+export const useHashRoute = (initialRoute?: Route): Route => {
+  const [route, setRoute] = useState<Route>(() => initialRoute ?? parseLocation(window.location));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(parseLocation(window.location));
+    window.addEventListener('hashchange', handleChange);
+    // Stepping back from a hash route to a pre-rendered page's path changes more than the hash
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('hashchange', handleChange);
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    };
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,127 @@
+import { GalleryStore, RepoConfig, S3StoreConfig } from '../types';
+import { conditionHeaders, createObjectStore, storedObjectFromResponse, throwIfWriteFailed } from './objectStore';
+
+// ----------------------------------------------------------------------
+// S3-compatible buckets (AWS S3, MinIO, Cloudflare R2, ...), addressed
+// path-style as <endpoint>/<bucket>/<key> so local stand-ins work unchanged.
+// Requests are signed in the browser with AWS Signature Version 4.
+// The bucket needs public read for visitors and a CORS rule that allows
+// GET/PUT/DELETE/HEAD from the site and exposes the ETag header.
+// ----------------------------------------------------------------------
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: ArrayBuffer | string) =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data));
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+// RFC 3986 encoding as SigV4 expects it; encodeURIComponent leaves !'()* alone
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(encodeRfc3986).join('/');
+
+const endpointOf = (s3: S3StoreConfig) => s3.endpoint.replace(/\/+$/, '');
+
+interface SignedRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body?: ArrayBuffer;
+}
+
+const signRequest = async (
+  { method, url, headers, body }: SignedRequest,
+  s3: S3StoreConfig,
+  secretAccessKey: string
+): Promise<Record<string, string>> => {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = await sha256Hex(body || '');
+
+  const allHeaders: Record<string, string> = {
+    ...headers,
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const names = Object.keys(allHeaders).map(name => name.toLowerCase()).sort();
+  const valueOf = (name: string) => Object.entries(allHeaders).find(([key]) => key.toLowerCase() === name)![1].trim();
+  const canonicalHeaders = names.map(name => `${name}:${valueOf(name)}\n`).join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [method, url.pathname, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+  const scope = `${dateStamp}/${s3.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = await hmac(encoder.encode(`AWS4${secretAccessKey}`), dateStamp);
+  const regionKey = await hmac(dateKey, s3.region);
+  const serviceKey = await hmac(regionKey, 's3');
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  // The browser sets Host itself and refuses to let scripts do it
+  const { host: _host, ...sendable } = allHeaders;
+  return {
+    ...sendable,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${s3.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+export const createS3Store = (config: RepoConfig): GalleryStore => {
+  const s3 = config.s3;
+  if (!s3) throw new Error("S3 storage is selected but not configured");
+
+  const objectUrl = (path: string) => new URL(`${endpointOf(s3)}/${encodeRfc3986(s3.bucket)}/${encodeKey(path)}`);
+  const publicBase = (s3.publicUrl || `${endpointOf(s3)}/${encodeRfc3986(s3.bucket)}`).replace(/\/+$/, '');
+
+  // Without a secret (visitors), reads go to the public URL unsigned
+  const send = async (method: string, url: URL, headers: Record<string, string> = {}, body?: Blob | string) => {
+    if (!config.token) return fetch(url, { method, headers, cache: 'no-store' });
+    const buffer = body === undefined ? undefined : typeof body === 'string' ? encoder.encode(body).buffer as ArrayBuffer : await body.arrayBuffer();
+    const signed = await signRequest({ method, url, headers, body: buffer }, s3, config.token);
+    return fetch(url, { method, headers: signed, body: buffer, cache: 'no-store' });
+  };
+
+  return createObjectStore({
+    get: async (path) => {
+      const url = config.token ? objectUrl(path) : new URL(`${publicBase}/${encodeKey(path)}`);
+      return storedObjectFromResponse(await send('GET', url), path);
+    },
+    put: async (path, body, contentType, condition) => {
+      if (!config.token) throw new Error("Authentication required");
+      const response = await send('PUT', objectUrl(path), { 'Content-Type': contentType, ...conditionHeaders(condition) }, body);
+      await throwIfWriteFailed(response, path);
+    },
+    remove: async (path) => {
+      if (!config.token) throw new Error("Authentication required");
+      const response = await send('DELETE', objectUrl(path));
+      if (!response.ok && response.status !== 404) throw new Error(`Failed to remove ${path} (HTTP ${response.status})`);
+    },
+    publicUrl: (path) => `${publicBase}/${encodeKey(path)}`,
+    // A signed HEAD on the bucket proves the keys are valid for it; write permission
+    // itself only shows on the first save
+    verifyAccess: async () => {
+      if (!config.token) return false;
+      try {
+        const response = await send('HEAD', new URL(`${endpointOf(s3)}/${encodeRfc3986(s3.bucket)}`));
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+  });
+};
@@ -0,0 +1,143 @@
+import { Artwork, Collection, GeneratedMetadata, ImageFormat, LocalizedArtworkText, Profile } from '../types';
+import { ARTWORK_STATUSES } from './artworkStatus';
+import { AVAILABILITIES } from './catalog';
+import { SUPPORTED_LOCALES } from './i18n';
+
+// ----------------------------------------------------------------------
+// Runtime checks for data read from the store. gallery.json and profile.json
+// can be edited by hand or written by older and newer versions of the app,
+// so their contents are checked before the UI relies on the declared types.
+// Unknown extra fields are allowed, so newer optional fields do not make
+// entries invalid for older clients. Answers from metadata providers are
+// checked the same way, since a model does not always keep to its schema.
+// ----------------------------------------------------------------------
+
+interface FieldRule {
+  check: (value: unknown) => boolean;
+  // Shown in error messages, e.g. "title: expected text"
+  expected: string;
+  optional?: boolean;
+}
+
+const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isPositive = (value: unknown) => isNumber(value) && (value as number) > 0;
+const isInteger = (value: unknown) => Number.isInteger(value);
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+const isOneOf = (options: readonly string[]) => (value: unknown) => typeof value === 'string' && options.includes(value);
+
+const required = (check: FieldRule['check'], expected: string): FieldRule => ({ check, expected });
+const optional = (check: FieldRule['check'], expected: string): FieldRule => ({ check, expected, optional: true });
+
+// Error messages for every field of `value` that breaks its rule
+const fieldErrors = (value: unknown, rules: Record<string, FieldRule>): string[] => {
+  if (!isObject(value)) return ['expected an object'];
+  return Object.entries(rules)
+    .filter(([key, rule]) => !(rule.optional && value[key] === undefined) && !rule.check(value[key]))
+    .map(([key, rule]) => `${key}: expected ${rule.expected}`);
+};
+
+const fitsRules = (rules: Record<string, FieldRule>) => (value: unknown) => fieldErrors(value, rules).length === 0;
+
+const LOCALIZED_TEXT_RULES: Record<keyof LocalizedArtworkText, FieldRule> = {
+  title: required(isString, 'text'),
+  description: required(isString, 'text'),
+  medium: required(isString, 'text'),
+  tags: required(isStringArray, 'a list of text'),
+  altText: optional(isString, 'text'),
+};
+
+const isVariant = fitsRules({
+  url: required(isString, 'text'),
+  width: required(isPositive, 'a positive number'),
+  format: required(isOneOf(IMAGE_FORMATS), IMAGE_FORMATS.join(' / ')),
+});
+
+const isTranslations = (value: unknown) =>
+  isObject(value) && Object.entries(value).every(([locale, text]) =>
+    isOneOf(SUPPORTED_LOCALES)(locale) && fitsRules(LOCALIZED_TEXT_RULES)(text)
+  );
+
+// Keyed by every Artwork field, so adding a field to the type without a rule fails to compile
+const ARTWORK_RULES: Record<keyof Artwork, FieldRule> = {
+  id: required(value => isString(value) && value !== '', 'a non-empty id'),
+  imageUrl: required(isString, 'text'),
+  ...LOCALIZED_TEXT_RULES,
+  createdAt: required(isNumber, 'a timestamp'),
+  width: optional(isPositive, 'a positive number'),
+  height: optional(isPositive, 'a positive number'),
+  variants: optional(value => Array.isArray(value) && value.every(isVariant), 'a list of image variants'),
+  thumbnailUrl: optional(isString, 'text'),
+  perceptualHash: optional(value => isString(value) && /^[0-9a-f]{16}$/i.test(value as string), 'a 16-digit hex hash'),
+  locale: optional(isOneOf(SUPPORTED_LOCALES), SUPPORTED_LOCALES.join(' / ')),
+  translations: optional(isTranslations, 'translations keyed by language'),
+  status: optional(isOneOf(ARTWORK_STATUSES), ARTWORK_STATUSES.join(' / ')),
+  publishAt: optional(isNumber, 'a timestamp'),
+  year: optional(isInteger, 'a whole year'),
+  dimensions: optional(fitsRules({
+    width: required(isPositive, 'a positive number'),
+    height: required(isPositive, 'a positive number'),
+    depth: optional(isPositive, 'a positive number'),
+    unit: required(isOneOf(['cm', 'in']), 'cm / in'),
+  }), 'width, height and unit'),
+  availability: optional(isOneOf(AVAILABILITIES), AVAILABILITIES.join(' / ')),
+  price: optional(fitsRules({
+    amount: required(value => isNumber(value) && (value as number) >= 0, 'a non-negative number'),
+    currency: required(value => isString(value) && /^[A-Z]{3}$/.test(value as string), 'a currency code'),
+  }), 'an amount and currency'),
+  edition: optional(fitsRules({
+    size: required(value => isInteger(value) && (value as number) > 0, 'a positive whole number'),
+    number: optional(value => isInteger(value) && (value as number) > 0, 'a positive whole number'),
+  }), 'an edition size'),
+};
+
+const COLLECTION_RULES: Record<keyof Collection, FieldRule> = {
+  id: required(value => isString(value) && value !== '', 'a non-empty id'),
+  title: required(isString, 'text'),
+  description: required(isString, 'text'),
+  coverArtworkId: optional(isString, 'an artwork id'),
+  artworkIds: required(isStringArray, 'a list of artwork ids'),
+};
+
+const GENERATED_METADATA_RULES: Record<keyof GeneratedMetadata, FieldRule> = {
+  ...LOCALIZED_TEXT_RULES,
+  year: optional(isInteger, 'a whole year'),
+};
+
+const PROFILE_RULES: Record<keyof Profile, FieldRule> = {
+  welcomeMessage: required(isString, 'text'),
+  featuredImageUrl: required(isString, 'text'),
+  aboutText: required(isString, 'text'),
+  aboutImageUrl: required(isString, 'text'),
+};
+
+// Problems with a stored artwork entry; empty when it can be used as an Artwork
+export const artworkErrors = (value: unknown): string[] => fieldErrors(value, ARTWORK_RULES);
+
+export const collectionErrors = (value: unknown): string[] => fieldErrors(value, COLLECTION_RULES);
+
+export const generatedMetadataErrors = (value: unknown): string[] => fieldErrors(value, GENERATED_METADATA_RULES);
+
+export const localizedTextErrors = (value: unknown): string[] => fieldErrors(value, LOCALIZED_TEXT_RULES);
+
+// Problems with a suggested value for a single placard field
+export const metadataFieldErrors = (field: keyof LocalizedArtworkText, value: unknown): string[] =>
+  fieldErrors({ [field]: value }, { [field]: LOCALIZED_TEXT_RULES[field] });
+
+// profile.json is a single small object, so a bad field is blanked rather than the whole profile dropped
+export const parseProfile = (data: unknown): Profile | null => {
+  if (!isObject(data)) return null;
+  const errors = fieldErrors(data, PROFILE_RULES);
+  if (errors.length > 0) console.warn("Ignoring invalid profile.json fields:", errors);
+  return {
+    welcomeMessage: isString(data.welcomeMessage) ? data.welcomeMessage as string : '',
+    featuredImageUrl: isString(data.featuredImageUrl) ? data.featuredImageUrl as string : '',
+    aboutText: isString(data.aboutText) ? data.aboutText as string : '',
+    aboutImageUrl: isString(data.aboutImageUrl) ? data.aboutImageUrl as string : '',
+  };
+};
@@ -0,0 +1,203 @@
+import { Artwork, ArtworkEmbedding, CuratorSettings, EmbeddingIndex, RepoConfig } from '../types';
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL } from './geminiService';
+import { describeArtworkForSearch, embedTexts } from './metadataProvider';
+import { DEFAULT_CURATOR_SETTINGS } from './curatorVoice';
+import { blobToBase64, fetchImageBlob } from './imageService';
+import { ArtworkUpload, canWrite, getGalleryStore, isStoreConfigured } from './galleryStore';
+
+// ----------------------------------------------------------------------
+// Search by meaning. Each artwork gets two Gemini embeddings, one of its
+// placard text and one of a visual description of its image, kept in
+// embeddings.json next to gallery.json. When the artist opts in (see
+// SearchSettings), visitors' queries are embedded on the fly and compared
+// with both; "More like this" compares artworks with each other and needs
+// no API call.
+// ----------------------------------------------------------------------
+
+// Texts per embedding request; the API accepts up to 100
+const EMBED_BATCH_SIZE = 20;
+
+// Search results closer than this to the best match are shown. Cosine scores from
+// gemini-embedding-001 sit in a narrow band, so a fixed cut-off does not work.
+const RELEVANCE_WINDOW = 0.12;
+
+export const EMPTY_EMBEDDING_INDEX: EmbeddingIndex = { model: EMBEDDING_MODEL, dimensions: EMBEDDING_DIMENSIONS, artworks: {} };
+
+// The source-language placard text, since translations are derived from it
+const embeddingText = (art: Artwork): string =>
+  [art.title, art.medium, art.year, art.description, art.tags.join(', ')].filter(Boolean).join('\n');
+
+// FNV-1a; only has to notice that the text changed
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Smallest JPEG rendition: cheap to send, and a format Gemini accepts
+const searchImageUrl = (art: Artwork): string =>
+  (art.variants || []).filter(v => v.format === 'jpeg').sort((a, b) => a.width - b.width)[0]?.url || art.imageUrl;
+
+// 5 decimals keep the ranking intact and embeddings.json a third of the size
+const compact = (vector: number[]) => vector.map(value => Math.round(value * 1e5) / 1e5);
+
+const dot = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export const isIndexUsable = (index: EmbeddingIndex | null): index is EmbeddingIndex =>
+  Boolean(index && index.model === EMBEDDING_MODEL && index.dimensions === EMBEDDING_DIMENSIONS && Object.keys(index.artworks).length > 0);
+
+// Missing, built with another model, or embedded before the text or image last changed
+export const needsEmbedding = (art: Artwork, index: EmbeddingIndex | null): boolean => {
+  const entry = isIndexUsable(index) ? index.artworks[art.id] : undefined;
+  return !entry || entry.textHash !== hashText(embeddingText(art)) || !entry.image || entry.imageUrl !== art.imageUrl;
+};
+
+export interface EmbeddingSource {
+  artwork: Artwork;
+  // Already in memory right after an upload; fetched from the store otherwise
+  image?: Blob;
+}
+
+// Embeddings for the given artworks. An image that cannot be described leaves that
+// artwork with a text embedding only, which a later backfill retries.
+export const embedArtworks = async (
+  sources: EmbeddingSource[],
+  curator: CuratorSettings = DEFAULT_CURATOR_SETTINGS,
+  onProgress: (done: number, total: number) => void = () => {}
+): Promise<Record<string, ArtworkEmbedding>> => {
+  const result: Record<string, ArtworkEmbedding> = {};
+
+  for (let start = 0; start < sources.length; start += EMBED_BATCH_SIZE) {
+    const batch = sources.slice(start, start + EMBED_BATCH_SIZE);
+    const texts = batch.map(({ artwork }) => embeddingText(artwork));
+
+    const descriptions = await Promise.all(batch.map(async ({ artwork, image }) => {
+      try {
+        const blob = image || await fetchImageBlob(searchImageUrl(artwork));
+        return await describeArtworkForSearch(await blobToBase64(blob), blob.type || 'image/jpeg', curator);
+      } catch (err) {
+        console.warn(`Could not describe image of ${artwork.id}`, err);
+        return null;
+      }
+    }));
+    const described = descriptions.filter((d): d is string => d !== null);
+
+    const [textVectors, imageVectors] = await Promise.all([
+      embedTexts(texts, 'RETRIEVAL_DOCUMENT'),
+      embedTexts(described, 'RETRIEVAL_DOCUMENT'),
+    ]);
+
+    let imageIdx = 0;
+    batch.forEach(({ artwork }, idx) => {
+      const image = descriptions[idx] !== null ? imageVectors[imageIdx++] : undefined;
+      result[artwork.id] = {
+        text: compact(textVectors[idx]),
+        ...(image ? { image: compact(image), imageUrl: artwork.imageUrl } : {}),
+        textHash: hashText(texts[idx]),
+      };
+    });
+    onProgress(Math.min(start + batch.length, sources.length), sources.length);
+  }
+  return result;
+};
+
+export const fetchEmbeddingIndex = async (config: RepoConfig): Promise<EmbeddingIndex | null> => {
+  if (!isStoreConfigured(config)) return null;
+  const index = await getGalleryStore(config).readEmbeddings();
+  return index && typeof index.artworks === 'object' ? index : null;
+};
+
+// Merges entries into the stored index. `keepIds`, when given, drops entries of deleted artworks.
+// The index is derived data, so a rare lost update is fixed by the next backfill.
+export const updateEmbeddingIndex = async (
+  entries: Record<string, ArtworkEmbedding>,
+  config: RepoConfig,
+  keepIds?: string[]
+): Promise<EmbeddingIndex> => {
+  if (!canWrite(config)) throw new Error("Authentication required");
+  const store = getGalleryStore(config);
+  const current = await store.readEmbeddings();
+  const base = isIndexUsable(current) ? current.artworks : {};
+  const kept = keepIds
+    ? Object.fromEntries(Object.entries(base).filter(([id]) => keepIds.includes(id)))
+    : base;
+
+  const index: EmbeddingIndex = { ...EMPTY_EMBEDDING_INDEX, artworks: { ...kept, ...entries } };
+  await store.writeEmbeddings(index);
+  return index;
+};
+
+// Called after a publish, with the renditions still in memory. Never fails the publish:
+// anything missed here is picked up by the backfill in the studio.
+export const indexPublishedArtworks = async (
+  uploads: ArtworkUpload[],
+  published: Artwork[],
+  config: RepoConfig,
+  curator?: CuratorSettings
+): Promise<void> => {
+  try {
+    const sources = published.map((artwork, idx) => ({
+      artwork,
+      image: uploads[idx]?.image.variants.filter(v => v.format === 'jpeg').sort((a, b) => a.width - b.width)[0]?.blob,
+    }));
+    await updateEmbeddingIndex(await embedArtworks(sources, curator), config);
+  } catch (err) {
+    console.warn("Could not index new artworks for search", err);
+  }
+};
+
+// Embeds every artwork that has no current entry and prunes entries of deleted ones
+export const backfillEmbeddings = async (
+  artworks: Artwork[],
+  config: RepoConfig,
+  curator: CuratorSettings | undefined,
+  onProgress: (done: number, total: number) => void
+): Promise<number> => {
+  const current = await fetchEmbeddingIndex(config);
+  const missing = artworks.filter(art => needsEmbedding(art, current));
+  const entries = await embedArtworks(missing.map(artwork => ({ artwork })), curator, onProgress);
+  await updateEmbeddingIndex(entries, config, artworks.map(art => art.id));
+  return missing.length;
+};
+
+// How well an entry matches a query or another entry: text and image similarity averaged,
+// or text alone when the image could not be embedded
+const similarity = (entry: ArtworkEmbedding, text: number[], image: number[] | undefined) => {
+  const textScore = dot(entry.text, text);
+  return entry.image && image ? (textScore + dot(entry.image, image)) / 2 : textScore;
+};
+
+export interface RankedArtwork {
+  id: string;
+  score: number;
+}
+
+// Artwork ids ranked by closeness to the query, best first, trimmed to the relevant ones
+export const rankBySimilarity = async (query: string, index: EmbeddingIndex, signal?: AbortSignal): Promise<RankedArtwork[]> => {
+  const [queryVector] = await embedTexts([query], 'RETRIEVAL_QUERY', signal);
+  // The query describes what the visitor wants to see, so it is matched against both vectors
+  const ranked = Object.entries(index.artworks)
+    .map(([id, entry]) => ({ id, score: similarity(entry, queryVector, queryVector) }))
+    .sort((a, b) => b.score - a.score);
+  const best = ranked[0]?.score ?? 0;
+  return ranked.filter(item => item.score >= best - RELEVANCE_WINDOW);
+};
+
+// Nearest neighbours of one artwork among `candidates`, most similar first
+export const similarArtworks = (artworkId: string, candidates: Artwork[], index: EmbeddingIndex, count: number): Artwork[] => {
+  const source = index.artworks[artworkId];
+  if (!source) return [];
+  return candidates
+    .filter(art => art.id !== artworkId && index.artworks[art.id])
+    .map(art => ({ art, score: similarity(index.artworks[art.id], source.text, source.image) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ art }) => art);
+};
@@ -0,0 +1,181 @@
+import { Artwork, ArtworkDimensions, Locale, Profile } from '../types';
+import { uiStrings } from './i18n';
+import { visiblePrice } from './catalog';
+
+// ----------------------------------------------------------------------
+// Titles, share previews (Open Graph / Twitter) and schema.org structured
+// data for the pages pre-rendered at build time by entry-server.tsx, plus
+// the sitemap listing them. Output is plain strings, so it runs in Node.
+// ----------------------------------------------------------------------
+
+// Also the <title> in index.html
+export const SITE_TITLE = 'MuseAI Gallery';
+
+// Search result snippets are cut off at about this length
+const MAX_DESCRIPTION_LENGTH = 160;
+
+// og:locale wants a territory as well as a language
+const OG_LOCALES: Record<Locale, string> = {
+  de: 'de_DE',
+  en: 'en_US',
+};
+
+// Where the pre-rendered pages live, relative to the site root
+export const ABOUT_PAGE_PATH = 'about/';
+
+export const artworkPagePath = (id: string): string => `artwork/${encodeURIComponent(id)}/`;
+
+export interface PageMeta {
+  // Relative to the site root, e.g. "artwork/<id>/"; "" is the home page
+  path: string;
+  title: string;
+  description: string;
+  // What the text is written in; unset for works catalogued before languages were recorded,
+  // so no language is claimed rather than a wrong one
+  language?: Locale;
+  image?: string;
+  imageAlt?: string;
+  // Epoch ms, written to the sitemap
+  lastModified?: number;
+  // A schema.org object, written as JSON-LD
+  structuredData: Record<string, unknown>;
+}
+
+export const pageTitle = (heading?: string): string => heading ? `${heading} – ${SITE_TITLE}` : SITE_TITLE;
+
+// Absolute address of a page, when the site's own address is known
+export const pageUrl = (siteUrl: string | undefined, path: string): string | undefined =>
+  siteUrl ? new URL(path, siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`).toString() : undefined;
+
+// One line, cut at a word boundary
+const summarize = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= MAX_DESCRIPTION_LENGTH) return flat;
+  const cut = flat.slice(0, MAX_DESCRIPTION_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+// schema.org has no dimension type of its own; a named Distance is what galleries use
+const distance = (value: number | undefined, dimensions: ArtworkDimensions) =>
+  value === undefined ? undefined : { '@type': 'Distance', name: `${value} ${dimensions.unit}` };
+
+// Drops unset properties so the JSON-LD only states what is known
+const compact = (value: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== ''));
+
+export const homePageMeta = (profile: Profile | null, artworks: Artwork[], language: Locale | undefined, siteUrl?: string): PageMeta => ({
+  path: '',
+  title: SITE_TITLE,
+  language,
+  description: summarize(profile?.welcomeMessage || ''),
+  image: profile?.featuredImageUrl || artworks[0]?.imageUrl,
+  structuredData: compact({
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name: SITE_TITLE,
+    url: pageUrl(siteUrl, ''),
+    inLanguage: language,
+  }),
+});
+
+// `locale` is the interface language the page is rendered in, `language` that of the profile text
+export const aboutPageMeta = (profile: Profile | null, locale: Locale, language: Locale | undefined, siteUrl?: string): PageMeta => ({
+  path: ABOUT_PAGE_PATH,
+  title: pageTitle(uiStrings(locale).about),
+  language,
+  description: summarize(profile?.aboutText || ''),
+  image: profile?.aboutImageUrl || undefined,
+  structuredData: compact({
+    '@context': 'https://schema.org',
+    '@type': 'AboutPage',
+    name: pageTitle(uiStrings(locale).about),
+    url: pageUrl(siteUrl, ABOUT_PAGE_PATH),
+    inLanguage: language,
+  }),
+});
+
+// `artwork` is expected in `language` already (see localizeArtwork)
+export const artworkPageMeta = (artwork: Artwork, language: Locale | undefined, siteUrl?: string): PageMeta => {
+  const path = artworkPagePath(artwork.id);
+  const url = pageUrl(siteUrl, path);
+  const price = visiblePrice(artwork);
+  return {
+    path,
+    title: pageTitle(artwork.title),
+    language,
+    description: summarize(artwork.description || [artwork.medium, artwork.year].filter(Boolean).join(', ')),
+    image: artwork.imageUrl,
+    imageAlt: artwork.altText || artwork.title,
+    lastModified: artwork.createdAt,
+    structuredData: compact({
+      '@context': 'https://schema.org',
+      '@type': 'VisualArtwork',
+      name: artwork.title,
+      description: artwork.description,
+      image: artwork.imageUrl,
+      url,
+      artMedium: artwork.medium,
+      dateCreated: artwork.year ? String(artwork.year) : undefined,
+      keywords: artwork.tags.length > 0 ? artwork.tags.join(', ') : undefined,
+      inLanguage: language,
+      height: artwork.dimensions && distance(artwork.dimensions.height, artwork.dimensions),
+      width: artwork.dimensions && distance(artwork.dimensions.width, artwork.dimensions),
+      depth: artwork.dimensions && distance(artwork.dimensions.depth, artwork.dimensions),
+      artEdition: artwork.edition?.size,
+      offers: price && compact({
+        '@type': 'Offer',
+        price: price.amount,
+        priceCurrency: price.currency,
+        availability: 'https://schema.org/InStock',
+        url,
+      }),
+    }),
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// JSON inside <script> must not be able to close the tag
+export const escapeScriptJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c');
+
+// Tags for <head>: title, description, canonical link, share previews and JSON-LD
+export const renderHeadTags = (meta: PageMeta, siteUrl?: string): string => {
+  const url = pageUrl(siteUrl, meta.path);
+  const tag = (attribute: 'name' | 'property', key: string, content?: string) =>
+    content ? `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />` : '';
+  return [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    tag('name', 'description', meta.description),
+    url ? `<link rel="canonical" href="${escapeHtml(url)}" />` : '',
+    tag('property', 'og:type', 'website'),
+    tag('property', 'og:site_name', SITE_TITLE),
+    tag('property', 'og:title', meta.title),
+    tag('property', 'og:description', meta.description),
+    tag('property', 'og:url', url),
+    tag('property', 'og:locale', meta.language && OG_LOCALES[meta.language]),
+    tag('property', 'og:image', meta.image),
+    tag('property', 'og:image:alt', meta.image ? meta.imageAlt : undefined),
+    tag('name', 'twitter:card', meta.image ? 'summary_large_image' : 'summary'),
+    tag('name', 'twitter:title', meta.title),
+    tag('name', 'twitter:description', meta.description),
+    tag('name', 'twitter:image', meta.image),
+    tag('name', 'twitter:image:alt', meta.image ? meta.imageAlt : undefined),
+    `<script type="application/ld+json">${escapeScriptJson(meta.structuredData)}</script>`,
+  ].filter(Boolean).join('\n    ');
+};
+
+export const sitemapXml = (pages: PageMeta[], siteUrl: string): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...pages.map(page => [
+    '  <url>',
+    `    <loc>${escapeHtml(pageUrl(siteUrl, page.path)!)}</loc>`,
+    ...(page.lastModified ? [`    <lastmod>${new Date(page.lastModified).toISOString().slice(0, 10)}</lastmod>`] : []),
+    '  </url>',
+  ].join('\n')),
+  '</urlset>',
+  '',
+].join('\n');
@@ -0,0 +1,117 @@
+import { PublicS3Config, PublicSiteConfig, RepoConfig, StorageBackend } from '../types';
+import { isStoreConfigured, STORAGE_BACKEND_LABELS } from './galleryStore';
+import { writeJsonFile } from './githubService';
+
+// ----------------------------------------------------------------------
+// Where visitors read the gallery from, decided at deploy time rather than
+// in source code. First match wins:
+//   1. site-config.json served next to index.html (the studio can write it)
+//   2. VITE_GALLERY_OWNER / VITE_GALLERY_REPO / VITE_GALLERY_BRANCH at build time
+//   3. the GitHub Pages address: <owner>.github.io/<repo>/
+// ----------------------------------------------------------------------
+
+export const SITE_CONFIG_FILE = 'site-config.json';
+// Vite copies public/ next to index.html, so this is where the file goes in the site's repo
+export const SITE_CONFIG_REPO_PATH = `public/${SITE_CONFIG_FILE}`;
+
+export const EMPTY_PUBLIC_CONFIG: PublicSiteConfig = { owner: '', repo: '', branch: 'main' };
+
+export type PublicConfigSource = 'site-config' | 'env' | 'github-pages';
+
+export const PUBLIC_CONFIG_SOURCE_LABELS: Record<PublicConfigSource, string> = {
+  'site-config': SITE_CONFIG_FILE,
+  env: 'build environment variables',
+  'github-pages': 'the GitHub Pages address',
+};
+
+export interface ResolvedPublicConfig {
+  config: PublicSiteConfig;
+  source: PublicConfigSource;
+}
+
+// What visitors need to read a bucket. The access key id is left out: it is half of the
+// artist's key pair and only ever needed for writes.
+const toPublicS3Config = (s3: PublicS3Config): PublicS3Config => ({
+  endpoint: s3.endpoint,
+  bucket: s3.bucket,
+  region: s3.region,
+  ...(s3.publicUrl ? { publicUrl: s3.publicUrl } : {}),
+});
+
+// Keeps only known public fields, so a token or key pasted into the file by mistake is never used
+// and one in the studio's config is never written out
+export const toPublicSiteConfig = (data: Partial<PublicSiteConfig> & { token?: unknown }): PublicSiteConfig => {
+  const backend = data.backend && data.backend in STORAGE_BACKEND_LABELS ? data.backend as StorageBackend : undefined;
+  return {
+    owner: typeof data.owner === 'string' ? data.owner : '',
+    repo: typeof data.repo === 'string' ? data.repo : '',
+    branch: typeof data.branch === 'string' && data.branch ? data.branch : 'main',
+    ...(backend && backend !== 'github' ? { backend } : {}),
+    ...(backend === 'local' && data.local ? { local: data.local } : {}),
+    ...(backend === 's3' && data.s3 ? { s3: toPublicS3Config(data.s3) } : {}),
+  };
+};
+
+const parseSiteConfigFile = (data: unknown): PublicSiteConfig | null =>
+  data && typeof data === 'object' && !Array.isArray(data) ? toPublicSiteConfig(data) : null;
+
+const fromSiteConfigFile = async (): Promise<PublicSiteConfig | null> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}${SITE_CONFIG_FILE}`, { cache: 'no-cache' });
+    if (!response.ok) return null;
+    return parseSiteConfigFile(await response.json());
+  } catch {
+    // Missing, or answered with the HTML fallback page
+    return null;
+  }
+};
+
+const fromEnv = (): PublicSiteConfig | null => {
+  const { VITE_GALLERY_OWNER, VITE_GALLERY_REPO, VITE_GALLERY_BRANCH } = import.meta.env;
+  if (!VITE_GALLERY_OWNER || !VITE_GALLERY_REPO) return null;
+  return { owner: VITE_GALLERY_OWNER, repo: VITE_GALLERY_REPO, branch: VITE_GALLERY_BRANCH || 'main' };
+};
+
+// octocat.github.io/my-art/ is the project site of octocat/my-art;
+// octocat.github.io/ is the user site, served from the octocat/octocat.github.io repo
+export const fromGitHubPagesLocation = (location: { hostname: string; pathname: string }): PublicSiteConfig | null => {
+  const match = location.hostname.toLowerCase().match(/^([a-z0-9-]+)\.github\.io$/);
+  if (!match) return null;
+  const owner = match[1];
+  const firstSegment = location.pathname.split('/').filter(Boolean)[0];
+  const repo = firstSegment && !firstSegment.includes('.') ? firstSegment : `${owner}.github.io`;
+  return { owner, repo, branch: 'main' };
+};
+
+const resolveFrom = (fromFile: PublicSiteConfig | null, location?: { hostname: string; pathname: string }): ResolvedPublicConfig | null => {
+  if (fromFile && isStoreConfigured(fromFile)) return { config: fromFile, source: 'site-config' };
+
+  const env = fromEnv();
+  if (env) return { config: env, source: 'env' };
+
+  const pages = location && fromGitHubPagesLocation(location);
+  if (pages) return { config: pages, source: 'github-pages' };
+
+  return null;
+};
+
+export const resolvePublicConfig = async (): Promise<ResolvedPublicConfig | null> =>
+  resolveFrom(await fromSiteConfigFile(), window.location);
+
+// The same lookup at build time, from the parsed public/site-config.json and the address the
+// site will be served at, for pre-rendering
+export const resolvePublicConfigAtBuild = (siteConfigFile: unknown, siteUrl?: string): ResolvedPublicConfig | null =>
+  resolveFrom(parseSiteConfigFile(siteConfigFile), siteUrl ? new URL(siteUrl) : undefined);
+
+// Whether visitors would read from the same place as `config`
+export const isSamePublicConfig = (a: PublicSiteConfig, b: PublicSiteConfig): boolean =>
+  JSON.stringify(toPublicSiteConfig(a)) === JSON.stringify(toPublicSiteConfig(b));
+
+export const serializeSiteConfig = (config: PublicSiteConfig): string =>
+  JSON.stringify(toPublicSiteConfig(config), null, 2);
+
+// Commits site-config.json to the GitHub repo the site is built from. Nothing changes for
+// visitors until the site is rebuilt and deployed, which copies public/ next to index.html.
+export const publishSiteConfig = async (siteConfig: PublicSiteConfig, config: RepoConfig): Promise<void> => {
+  await writeJsonFile(SITE_CONFIG_REPO_PATH, toPublicSiteConfig(siteConfig), 'Publish public site config', config);
+};
@@ -1,24 +1,280 @@
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+  format: ImageFormat;
+}
+
+export type Locale = 'de' | 'en';
+
+export interface LocalizedArtworkText {
+  title: string;
+  description: string;
+  medium: string;
+  tags: string[];
+  // Literal description of what the image shows, for screen readers; title is used when missing
+  altText?: string;
+}
+
+export type DimensionUnit = 'cm' | 'in';
+
+// Physical size of the work, as opposed to the pixel size of its image
+export interface ArtworkDimensions {
+  width: number;
+  height: number;
+  depth?: number;
+  unit: DimensionUnit;
+}
+
+export type Availability = 'available' | 'sold' | 'reserved' | 'not_for_sale';
+
+export interface Price {
+  amount: number;
+  // ISO 4217 code, e.g. "EUR"
+  currency: string;
+}
+
+// Limited prints, e.g. 3 of 25
+export interface Edition {
+  size: number;
+  number?: number;
+}
+
+// Entries written before statuses existed have none and count as published
+export type ArtworkStatus = 'draft' | 'published' | 'hidden' | 'scheduled';
+
 export interface Artwork {
   id: string;
+  // Largest JPEG rendition (or the original upload for older entries)
   imageUrl: string;
   title: string;
   description: string;
   medium: string;
   tags: string[];
+  altText?: string;
   createdAt: number;
+  // Pixel size of imageUrl, used to reserve layout space before the image loads
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+  thumbnailUrl?: string;
+  // 64-bit dHash (hex) of the image, used to flag near-duplicate uploads
+  perceptualHash?: string;
+  // Language of title/description/medium/tags/altText above; entries without it predate translations
+  locale?: Locale;
+  translations?: Partial<Record<Locale, LocalizedArtworkText>>;
+  status?: ArtworkStatus;
+  // Epoch ms at which a scheduled artwork becomes visible
+  publishAt?: number;
+  // Year the work was made; createdAt is only the upload time
+  year?: number;
+  dimensions?: ArtworkDimensions;
+  availability?: Availability;
+  price?: Price;
+  edition?: Edition;
+}
+
+export interface Profile {
+  welcomeMessage: string;
+  featuredImageUrl: string;
+  aboutText: string;
+  aboutImageUrl: string;
+}
+
+// A curated series of works, e.g. "Vögel" or "Hannover"
+export interface Collection {
+  id: string;
+  title: string;
+  description: string;
+  coverArtworkId?: string;
+  // Member artworks in display order
+  artworkIds: string[];
+}
+
+// A gallery.json entry that failed validation on load. It is hidden from the site
+// but written back unchanged, so nothing is lost until the artist removes it.
+export interface InvalidManifestEntry {
+  kind: 'artwork' | 'collection';
+  // Position in the stored array
+  index: number;
+  id?: string;
+  value: unknown;
+  errors: string[];
+}
+
+// Contents of gallery.json. Array order is the curated gallery order.
+export interface GalleryManifest {
+  artworks: Artwork[];
+  collections: Collection[];
+  invalid?: InvalidManifestEntry[];
+}
+
+// One artwork's vectors in embeddings.json. Both are unit length, so a dot product is the cosine similarity.
+export interface ArtworkEmbedding {
+  // Title, description, medium, tags and year as stored in the manifest
+  text: number[];
+  // A Gemini-written visual description of the image; the embedding model only takes text
+  image?: number[];
+  // What was embedded, so entries that went out of date after an edit can be found
+  textHash: string;
+  imageUrl?: string;
+}
+
+// Contents of embeddings.json, a sidecar to gallery.json used for search by meaning
+export interface EmbeddingIndex {
+  model: string;
+  dimensions: number;
+  artworks: Record<string, ArtworkEmbedding>;
+}
+
+// 'curated' follows the order stored in the manifest (or collection)
+export type GallerySort = 'curated' | 'newest' | 'oldest' | 'title' | 'medium';
+
+export interface GalleryFilters {
+  query?: string;
+  tag?: string;
+  sort?: GallerySort;
+  // Restricts the gallery to one collection's members
+  collection?: string;
+  // Ranks works by how close they are in meaning to `query` instead of matching its words
+  semantic?: boolean;
 }
 
 export enum ViewMode {
+  HOME = 'HOME',
   GALLERY = 'GALLERY',
+  COLLECTIONS = 'COLLECTIONS',
+  ABOUT = 'ABOUT',
   ADMIN = 'ADMIN',
   LOGIN = 'LOGIN'
 }
 
-export interface GeneratedMetadata {
-  title: string;
-  description: string;
-  medium: string;
-  tags: string[];
+export type InquiryKind = 'purchase' | 'commission';
+
+export interface Inquiry {
+  artworkId: string;
+  artworkTitle: string;
+  kind: InquiryKind;
+  name: string;
+  email: string;
+  message: string;
+  createdAt: number;
+  // Site language the visitor was using, so the artist can reply in it
+  locale?: Locale;
+}
+
+// An inquiry as read back in the studio
+export interface ReceivedInquiry extends Inquiry {
+  id: string;
+  source: 'github' | 'webhook';
+  url?: string;
+  issueNumber?: number;
+  isOpen?: boolean;
+}
+
+export type InquiryTransportKind = 'none' | 'mailto' | 'webhook' | 'github';
+
+export interface InquirySettings {
+  transport: InquiryTransportKind;
+  // Recipient for 'mailto'
+  email?: string;
+  // Endpoint receiving a JSON POST for 'webhook'
+  webhookUrl?: string;
+}
+
+export type CuratorVoicePreset = 'elegant' | 'poetic' | 'scholarly' | 'plain' | 'playful';
+
+// How Gemini writes placard text. Anything left out falls back to the defaults in services/curatorVoice.ts.
+export interface CuratorSettings {
+  voice: CuratorVoicePreset | 'custom';
+  // Replaces the preset's system instruction when voice is 'custom'
+  systemInstruction?: string;
+  // Sent with every image; may contain the placeholders listed in PROMPT_PLACEHOLDERS
+  promptTemplate?: string;
+  model?: string;
+  tagCount?: number;
+}
+
+export interface SearchSettings {
+  // Lets visitors search by meaning. Every such search embeds the query with the Gemini key bundled
+  // into the public site, so it is off unless the artist turns it on.
+  publicMeaningSearch?: boolean;
+}
+
+// Contents of settings.json in the gallery repo
+export interface SiteSettings {
+  inquiry?: InquirySettings;
+  curator?: CuratorSettings;
+  search?: SearchSettings;
+}
+
+export interface GeneratedMetadata extends LocalizedArtworkText {
+  // Only set when a date is legible on the work itself, e.g. next to the signature
+  year?: number;
+}
+
+// What the artist tells Gemini about a work before it writes the placard
+export interface ArtworkContext {
+  series?: string;
+  year?: number;
+  // The artist's own words: intent, place, technique...
+  notes?: string;
+}
+
+// Placard fields Gemini can rewrite one at a time
+export type MetadataField = 'title' | 'description' | 'medium' | 'tags' | 'altText';
+
+export type MetadataProviderKind = 'gemini' | 'mock';
+
+export interface MetadataRequest {
+  language: Locale;
+  curator: CuratorSettings;
+  context: ArtworkContext;
+  signal?: AbortSignal;
+}
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+// Writes placard text for the studio and embeds text for search by meaning. Answers are returned
+// as parsed but unchecked JSON; services/metadataProvider.ts validates them, retries and turns
+// them into typed values.
+export interface MetadataProvider {
+  // A GeneratedMetadata object
+  generateMetadata(base64Image: string, mimeType: string, request: MetadataRequest): Promise<unknown>;
+  // A list of values for `field`
+  generateFieldAlternatives(
+    base64Image: string,
+    mimeType: string,
+    field: MetadataField,
+    current: LocalizedArtworkText,
+    count: number,
+    request: MetadataRequest
+  ): Promise<unknown>;
+  // LocalizedArtworkText keyed by each target locale
+  translate(text: LocalizedArtworkText, from: Locale, to: Locale[], curator: CuratorSettings, signal?: AbortSignal): Promise<unknown>;
+  // One vector of EMBEDDING_DIMENSIONS numbers per text, in order
+  embed(texts: string[], taskType: EmbeddingTask, signal?: AbortSignal): Promise<unknown>;
+  // A plain prose description of what the image shows, to be embedded for search
+  describeForSearch(base64Image: string, mimeType: string, curator: CuratorSettings, signal?: AbortSignal): Promise<unknown>;
+}
+
+export type StorageBackend = 'github' | 'local' | 's3';
+
+// The dev server's stand-in store (vite.config.ts), which keeps gallery files in a local folder
+export interface LocalStoreConfig {
+  url: string;
+}
+
+// Any S3-compatible bucket (AWS, MinIO, R2...). The secret key is carried as RepoConfig.token,
+// so it is encrypted on the device exactly like a GitHub token.
+export interface S3StoreConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  // Where visitors load files from when it is not <endpoint>/<bucket>, e.g. a CDN
+  publicUrl?: string;
 }
 
 export interface RepoConfig {
@@ -26,4 +282,97 @@ export interface RepoConfig {
   repo: string;
   branch: string;
   token?: string;
-}
\ No newline at end of file
+  // Where gallery files are kept; GitHub when unset
+  backend?: StorageBackend;
+  local?: LocalStoreConfig;
+  s3?: S3StoreConfig;
+}
+
+// The parts of an S3 config visitors need to read the bucket; the key pair stays with the artist
+export type PublicS3Config = Omit<S3StoreConfig, 'accessKeyId'>;
+
+// Contents of site-config.json, served next to index.html: where visitors read the gallery
+// from. Everything here is public, so it never carries a token or any part of a key pair.
+export type PublicSiteConfig = Omit<RepoConfig, 'token' | 's3'> & { s3?: PublicS3Config };
+
+// Gallery snapshot embedded in each pre-rendered page, so the app's first render in the
+// browser matches the static HTML it hydrates. Holds published artworks only.
+export interface PrerenderedData {
+  // The page it was rendered for, relative to the site root; "" is the home page
+  path: string;
+  config: PublicSiteConfig;
+  manifest: GalleryManifest;
+  profile: Profile | null;
+  settings: SiteSettings;
+  // The language the page was rendered in; the app starts in it so hydration matches
+  locale: Locale;
+}
+
+export type HistoryFile = 'gallery.json' | 'profile.json';
+
+// A commit shown in the studio's history; `files` lists which tracked files it changed
+export interface HistoryCommit {
+  sha: string;
+  message: string;
+  author: string;
+  // ISO 8601
+  date: string;
+  url: string;
+  files: HistoryFile[];
+  // The commit it was made on top of; reading a file there gives the version this commit replaced
+  parentSha?: string;
+}
+
+// Files written or removed together with a manifest update, keyed by store path
+export interface StoreFileChanges {
+  add?: { path: string; blob: Blob }[];
+  // Either fixed paths, or worked out from the manifest the update was applied to, so a write
+  // retried after a conflict never deletes files based on an older read
+  remove?: string[] | ((manifest: GalleryManifest) => string[]);
+}
+
+// Storage operations the gallery needs; one implementation per backend
+export interface GalleryStore {
+  // Public read used for rendering; returns an empty manifest when gallery.json does not exist
+  // yet and throws when it could not be read, so a failed read never looks like an empty gallery
+  readManifest(): Promise<GalleryManifest>;
+  // Applies `update` to the latest manifest and saves it together with `files`, retrying
+  // when another writer got there first. `message` becomes the commit message where there is one.
+  writeManifest(
+    update: (manifest: GalleryManifest) => GalleryManifest,
+    message: string,
+    files?: StoreFileChanges
+  ): Promise<GalleryManifest>;
+  putImage(path: string, blob: Blob): Promise<void>;
+  deleteImage(path: string): Promise<void>;
+  readProfile(): Promise<Profile | null>;
+  writeProfile(profile: Profile): Promise<void>;
+  readSettings(): Promise<SiteSettings | null>;
+  writeSettings(settings: SiteSettings): Promise<void>;
+  readEmbeddings(): Promise<EmbeddingIndex | null>;
+  writeEmbeddings(index: EmbeddingIndex): Promise<void>;
+  // Public URL stored in the manifest for a file, and the reverse mapping
+  publicUrl(path: string): string;
+  pathFromUrl(url: string): string | null;
+  // Whether the current credentials can write
+  verifyAccess(): Promise<boolean>;
+}
+
+export interface EncryptedToken {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// What is persisted in localStorage: store coordinates plus the passphrase-encrypted token
+export interface StoredRepoConfig {
+  owner: string;
+  repo: string;
+  branch: string;
+  backend?: StorageBackend;
+  local?: LocalStoreConfig;
+  s3?: S3StoreConfig;
+  encryptedToken?: EncryptedToken;
+  /** @deprecated plain-text token written by older versions, migrated on next login */
+  token?: string;
+}
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Build-time gallery coordinates, used when no site-config.json is deployed
+  readonly VITE_GALLERY_OWNER?: string;
+  readonly VITE_GALLERY_REPO?: string;
+  readonly VITE_GALLERY_BRANCH?: string;
+}
@@ -1,18 +1,193 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createServer, defineConfig, loadEnv, Plugin, ResolvedConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import type { PrerenderedFile } from './entry-server';
+
+const DEV_INQUIRIES_FILE = path.resolve(__dirname, '.dev-inquiries.json');
+
+// Stand-in for a real inquiry webhook while developing. Point the webhook setting at
+// http://localhost:3000/api/inquiries: POST stores an inquiry, GET lists them.
+const devInquiryWebhook = (): Plugin => ({
+  name: 'dev-inquiry-webhook',
+  configureServer(server) {
+    server.middlewares.use('/api/inquiries', (req, res) => {
+      const stored: unknown[] = fs.existsSync(DEV_INQUIRIES_FILE)
+        ? JSON.parse(fs.readFileSync(DEV_INQUIRIES_FILE, 'utf-8'))
+        : [];
+
+      if (req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          try {
+            const inquiry = { ...JSON.parse(body), id: `dev-${Date.now()}` };
+            fs.writeFileSync(DEV_INQUIRIES_FILE, JSON.stringify([...stored, inquiry], null, 2));
+            res.statusCode = 201;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(inquiry));
+          } catch {
+            res.statusCode = 400;
+            res.end();
+          }
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(stored));
+    });
+  },
+});
+
+// Backs the "Local dev server" storage option (services/localStore.ts): a folder served at
+// /api/gallery with GET/HEAD/PUT/DELETE, and ETags so concurrent manifest writes are caught
+// the way S3 preconditions catch them.
+const devGalleryStore = (root: string): Plugin => ({
+  name: 'dev-gallery-store',
+  configureServer(server) {
+    server.middlewares.use('/api/gallery', (req, res) => {
+      const relative = decodeURIComponent((req.url || '/').split('?')[0]).replace(/^\/+/, '');
+      const file = path.resolve(root, relative);
+      if (!relative || !file.startsWith(root + path.sep)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+
+      const etagOf = () => fs.existsSync(file) ? `"${crypto.createHash('md5').update(fs.readFileSync(file)).digest('hex')}"` : null;
+
+      if (req.method === 'GET' || req.method === 'HEAD') {
+        const etag = etagOf();
+        if (!etag) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        res.setHeader('ETag', etag);
+        res.setHeader('Cache-Control', 'no-store');
+        if (file.endsWith('.json')) res.setHeader('Content-Type', 'application/json');
+        res.end(req.method === 'GET' ? fs.readFileSync(file) : undefined);
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        if (fs.existsSync(file)) fs.unlinkSync(file);
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          // Checked and written in one synchronous step, so two racing writers cannot both pass
+          const etag = etagOf();
+          const ifMatch = req.headers['if-match'];
+          const ifNoneMatch = req.headers['if-none-match'];
+          if ((ifMatch && ifMatch !== etag) || (ifNoneMatch === '*' && etag)) {
+            res.statusCode = 412;
+            res.end();
+            return;
+          }
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, Buffer.concat(chunks));
+          res.statusCode = 200;
+          res.end();
+        });
+        return;
+      }
+
+      res.statusCode = 405;
+      res.end();
+    });
+  },
+});
+
+// Writes static HTML for the home page, the about page and each published artwork into the
+// build output, plus sitemap.xml (see entry-server.tsx). The gallery files are read from
+// `dataDir`, where the GitHub backend commits them, and rendered through a throwaway dev
+// server so the app's TypeScript loads as it does in the browser.
+const prerenderPages = (dataDir: string, siteUrl?: string): Plugin => {
+  let config: ResolvedConfig;
+  const readJson = (file: string): unknown => fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+
+  return {
+    name: 'prerender-pages',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async closeBundle() {
+      const gallery = readJson(path.join(dataDir, 'gallery.json'));
+      if (!gallery) {
+        config.logger.warn(`No gallery.json in ${dataDir}; pages were not pre-rendered.`);
+        return;
+      }
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const server = await createServer({
+        root: config.root,
+        mode: config.mode,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false, ws: false },
+      });
+      try {
+        const { prerenderSite } = await server.ssrLoadModule('/entry-server.tsx');
+        const files: PrerenderedFile[] = prerenderSite(fs.readFileSync(path.join(outDir, 'index.html'), 'utf-8'), {
+          gallery,
+          profile: readJson(path.join(dataDir, 'profile.json')),
+          settings: readJson(path.join(dataDir, 'settings.json')),
+          siteConfig: readJson(path.join(config.publicDir, 'site-config.json')),
+          siteUrl,
+        });
+        if (files.length === 0) {
+          config.logger.warn('No public gallery config (public/site-config.json, VITE_GALLERY_OWNER/VITE_GALLERY_REPO or a GitHub Pages SITE_URL); pages were not pre-rendered.');
+          return;
+        }
+        for (const file of files) {
+          const target = path.join(outDir, file.path);
+          fs.mkdirSync(path.dirname(target), { recursive: true });
+          fs.writeFileSync(target, file.contents);
+        }
+        config.logger.info(`Pre-rendered ${files.filter(file => file.path.endsWith('.html')).length} pages${siteUrl ? ' and sitemap.xml' : ' (set SITE_URL for canonical links and sitemap.xml)'}.`);
+      } finally {
+        await server.close();
+      }
+    },
+  };
+};
+
+// The path the site is served under, e.g. /my-art/ for https://octocat.github.io/my-art/, so asset
+// URLs, the router and the pre-rendered pages all agree with SITE_URL. The root without one.
+const basePathOf = (siteUrl?: string): string => {
+  if (!siteUrl) return '/';
+  const pathname = new URL(siteUrl).pathname;
+  return pathname.endsWith('/') ? pathname : `${pathname}/`;
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      base: basePathOf(env.SITE_URL || undefined),
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        devInquiryWebhook(),
+        devGalleryStore(path.resolve(__dirname, env.DEV_GALLERY_DIR || '.dev-gallery')),
+        prerenderPages(path.resolve(__dirname, env.PRERENDER_DATA_DIR || '.'), env.SITE_URL || undefined),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // 'mock' answers metadata requests offline, without a key (services/mockProvider.ts)
+        'process.env.METADATA_PROVIDER': JSON.stringify(env.METADATA_PROVIDER || 'gemini')
       },
       resolve: {
         alias: {